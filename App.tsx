@@ -32,34 +32,171 @@ import {
   FileSpreadsheet,
   Layers,
   Settings2,
-  Zap
+  Zap,
+  Undo2,
+  Redo2,
+  Wallet,
+  MinusCircle,
+  ChevronDown,
+  MapPin,
+  BellOff,
+  SlidersHorizontal,
+  Wand2,
+  Link2,
+  Unlink,
+  Save,
+  Printer,
+  Cpu,
+  Crosshair,
+  Filter,
+  GitCompare,
+  GitBranch,
+  Eye
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { MetrajItem, Project, AuditRecord, AppScreen, ValidationResult, AIAnalysis, Severity, Language } from './types';
-import { runStructuralRules, calculateQuantity } from './services/ruleEngine';
-import { getAIExpertAnalysis, analyzeExcelStructure } from './services/geminiService';
+import { MetrajItem, MetrajCategory, Project, AuditRecord, AppScreen, ValidationResult, AIAnalysis, AIFinding, Severity, Language, ItemHistory, HistoryEntry, PriceCatalog, PaymentPeriod, RebarSpec, RebarShape, DimensionField, ItemLocation, StructuralElement, RuleDefinition, ProjectRuleConfig, MutedFinding, MappingTemplate, MappingSource, UserSettings, BackupFile, AIProviderConfig, AIProviderKind, RiskBreakdown, RiskComponentKey, ProjectRevision } from './types';
+import { calculateQuantity, recalculateItem, getNetQuantity, isQuantityMismatch, DEFAULT_TOLERANCES } from './services/ruleEngine';
+import { runRules, getRuleDefinitions, parseRuleDefinitions, isFindingMuted, EMPTY_RULE_CONFIG } from './services/ruleRegistry';
+import { tryEvaluate, isFormula } from './services/expressionService';
+import { ELEMENT_TYPES, buildLocationTree, flattenLocationTree, filterItemsByLocation, locationPath, LocationNode } from './services/locationService';
+import { getAIExpertAnalysis, analyzeExcelStructure, AnalysisProgress } from './services/aiService';
+import { createAIProvider, DEFAULT_AI_PROVIDER, DEFAULT_OPENAI_CONTEXT_TOKENS, DEFAULT_PROXY_ENDPOINT } from './services/aiProvider';
+import { diffImport, applyImportDiff, summarizeDiff, DiffEntry, DiffKind } from './services/mergeService';
+import { readWorkbookSheets, groupSheetsBySignature, parseSheetItems, resolveMapping, ImportSheet, ImportMappingGroup } from './services/importService';
 import { translations } from './services/translations';
+import { buildMetrajWorkbook } from './services/exportService';
+import { buildAuditStats, printAuditReport } from './services/reportService';
+import { computeRiskScore } from './services/riskScoreService';
+import { createRevision, diffRevisions, revisionItems, branchFromRevision, CURRENT_REVISION_ID } from './services/revisionService';
+import { compareAudits, buildRiskTrend, hasSnapshot, auditGroupKey, AuditComparison, RiskTrendPoint } from './services/auditCompareService';
+import { createStorage, createRecordSync, StorageUsage, RecordStore } from './services/storageService';
+import { parseBackup, createBackup, downloadBackup, CURRENT_SCHEMA_VERSION, BACKUP_EXTENSION } from './services/backupService';
+import { pushHistory, undoHistory, redoHistory } from './services/historyService';
+import { parseCatalogRows, buildBillOfQuantities } from './services/priceCatalog';
+import { REBAR_DIAMETERS, REBAR_SHAPES, SHAPE_SEGMENTS, DEFAULT_REBAR, getBarLength, getNominalWeight, summarizeRebarByDiameter } from './services/rebarService';
+import { buildPeriodSummary, getContractLines, sortPeriods, nextPeriodDates, PeriodSummaryRow } from './services/hakedisService';
 
-interface UserSettings {
-  orgName: string;
-  preferredStandard: string;
+const UNIT_OPTIONS = ['m3', 'm2', 'kg', 'ton', 'm', 'adet'];
+
+interface BulkEditState {
+  category: string;
+  unit: string;
+  multiplier: string;
+  block: string;
+  floor: string;
+  element: string;
 }
 
-const App: React.FC = () => {
-  const [projects, setProjects] = useState<Project[]>(() => {
-    const saved = localStorage.getItem('metraj_projects');
-    return saved ? JSON.parse(saved) : [];
-  });
-  
-  const [auditHistory, setAuditHistory] = useState<AuditRecord[]>(() => {
-    const saved = localStorage.getItem('metraj_history');
-    return saved ? JSON.parse(saved) : [];
-  });
+const RULE_EXAMPLE = JSON.stringify({
+  id: 'FORMWORK_MIN_HEIGHT',
+  description: 'Kalıp kalemlerinde Z boyutu 0.10 m altında olmamalı',
+  severity: 'WARNING',
+  categories: ['Formwork'],
+  condition: { all: [{ field: 'z', op: 'gt', value: 0 }, { field: 'z', op: 'lt', value: 0.1 }] },
+  message: 'Kalıp yüksekliği çok düşük. Poz: {pozNumber}',
+  suggestedAction: 'Z boyutunu kontrol edin.'
+}, null, 2);
 
-  const [settings, setSettings] = useState<UserSettings>(() => {
-    const saved = localStorage.getItem('metraj_settings');
-    return saved ? JSON.parse(saved) : { orgName: '', preferredStandard: 'TS 500' };
-  });
+const MAPPING_SOURCE_STYLES: Record<MappingSource, string> = {
+  TEMPLATE: 'bg-indigo-50 text-indigo-600',
+  LOCAL: 'bg-green-50 text-green-600',
+  AI: 'bg-purple-50 text-purple-600',
+  MANUAL: 'bg-amber-50 text-amber-600'
+};
+
+const MappingSourceBadge = ({ source, t }: { source: MappingSource, t: any }) => (
+  <span className={`text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${MAPPING_SOURCE_STYLES[source]}`}>{t(`mappingSource${source}`)}</span>
+);
+
+// Kalem alan adlarının çeviri anahtarları (içe aktarım sorunları ve fark tablosu için).
+const FIELD_LABEL_KEYS: Record<string, string> = { pozNumber: 'pozNo', x: 'width', y: 'height', z: 'length', totalQuantity: 'totalManual' };
+const fieldLabel = (field: string, t: any): string => t(FIELD_LABEL_KEYS[field] || field);
+
+const DIFF_KIND_STYLES: Record<DiffKind, string> = {
+  ADDED: 'bg-green-50 text-green-600',
+  CHANGED: 'bg-amber-50 text-amber-600',
+  REMOVED: 'bg-red-50 text-red-600',
+  UNCHANGED: 'bg-gray-100 text-gray-400'
+};
+
+const formatDiffValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return locationPath(value).filter(Boolean).join(' / ') || '—';
+  return String(value);
+};
+
+// Yeniden içe aktarımda satır bazında kabul/ret tablosu. Değişmeyen satırlar yalnızca sayılır.
+const ImportDiffTable = ({ diff, onToggle, onSetAccepted, t }: any) => {
+  const summary = summarizeDiff(diff.entries);
+  const visible: DiffEntry[] = diff.entries.filter((e: DiffEntry) => e.kind !== 'UNCHANGED');
+  return (
+    <div className="flex-1 overflow-auto p-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(['ADDED', 'CHANGED', 'REMOVED', 'UNCHANGED'] as DiffKind[]).map(kind => (
+          <span key={kind} className={`px-3 py-1 rounded-full text-xs font-black ${DIFF_KIND_STYLES[kind]}`}>{t(`diff${kind}`)}: {summary[kind]}</span>
+        ))}
+        <div className="ml-auto flex gap-2 text-xs font-bold">
+          <button onClick={() => onSetAccepted(new Set(visible.map(e => e.id)))} className="px-3 py-1 rounded-lg bg-gray-100 hover:bg-gray-200">{t('acceptAll')}</button>
+          <button onClick={() => onSetAccepted(new Set())} className="px-3 py-1 rounded-lg bg-gray-100 hover:bg-gray-200">{t('rejectAll')}</button>
+        </div>
+      </div>
+      {visible.length === 0 ? (
+        <div className="py-12 text-center text-gray-400 font-bold">{t('noDiff')}</div>
+      ) : (
+        <div className="border rounded-2xl overflow-hidden">
+          <table className="w-full text-xs text-left">
+            <thead className="bg-gray-50 border-b">
+              <tr><th className="p-3 w-10"></th><th className="p-3">{t('diffKind')}</th><th className="p-3">Poz No</th><th className="p-3">Tanım</th><th className="p-3">{t('diffChanges')}</th></tr>
+            </thead>
+            <tbody className="divide-y">
+              {visible.map(entry => {
+                const item = entry.incoming || entry.existing!;
+                return (
+                  <tr key={entry.id} className={diff.accepted.has(entry.id) ? '' : 'opacity-40'}>
+                    <td className="p-3"><input type="checkbox" checked={diff.accepted.has(entry.id)} onChange={() => onToggle(entry.id)} /></td>
+                    <td className="p-3"><span className={`px-2 py-0.5 rounded-full font-black text-[10px] ${DIFF_KIND_STYLES[entry.kind]}`}>{t(`diff${entry.kind}`)}</span></td>
+                    <td className="p-3 font-bold text-blue-600">{item.pozNumber}{item.isDeduction && <span className="text-red-500"> ({t('deduction')})</span>}</td>
+                    <td className="p-3 text-gray-600">{item.description}<div className="text-[10px] text-gray-400">{item.sourceSheet}</div></td>
+                    <td className="p-3">
+                      {entry.kind === 'CHANGED' ? entry.changes.map(c => (
+                        <div key={c.field} className="whitespace-nowrap"><span className="font-bold text-gray-500">{fieldLabel(c.field, t)}:</span> <span className="line-through text-red-400">{formatDiffValue(c.before)}</span> → <span className="font-bold text-green-600">{formatDiffValue(c.after)}</span></div>
+                      )) : <span className="text-gray-400">{item.totalQuantity} {item.unit}</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const EMPTY_BULK_EDIT: BulkEditState = { category: '', unit: '', multiplier: '', block: '', floor: '', element: '' };
+const CATEGORY_OPTIONS: MetrajCategory[] = ['Concrete', 'Formwork', 'Reinforcement', 'Finishing'];
+
+const storage = createStorage();
+// Eşitleyiciler bileşen dışında yaşadığından yazım hataları, App bağlandığında ayarlanan dinleyiciye iletilir.
+let onSaveError: (store: RecordStore, error: unknown | null) => void = () => {};
+const projectSync = createRecordSync<Project>(storage, 'projects', { onError: err => onSaveError('projects', err) });
+const auditSync = createRecordSync<AuditRecord>(storage, 'audits', { onError: err => onSaveError('audits', err) });
+const revisionSync = createRecordSync<ProjectRevision>(storage, 'revisions', { onError: err => onSaveError('revisions', err) });
+
+const App: React.FC = () => {
+  // Kalıcı veriler depodan eşzamansız yüklenir; yükleme bitene kadar yazım yapılmaz.
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Yükleme başarısızsa hiçbir yazım yapılmaz; aksi halde varsayılan boş durum kayıtlı verilerin üzerine yazılır.
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Depoya yazılamayan kayıt türleri; yazım yeniden denenirken kullanıcı uyarılır.
+  const [saveErrors, setSaveErrors] = useState<Partial<Record<RecordStore, string>>>({});
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [auditHistory, setAuditHistory] = useState<AuditRecord[]>([]);
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [settings, setSettings] = useState<UserSettings>({ orgName: '', preferredStandard: 'TS 500' });
+  const [priceCatalogs, setPriceCatalogs] = useState<PriceCatalog[]>([]);
+  const [customRules, setCustomRules] = useState<RuleDefinition[]>([]);
+  const [mappingTemplates, setMappingTemplates] = useState<MappingTemplate[]>([]);
 
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   const [screen, setScreen] = useState<AppScreen>('ONBOARDING');
@@ -67,62 +204,313 @@ const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   
   const [viewingAudit, setViewingAudit] = useState<AuditRecord | null>(null);
   const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null>(null);
   const [guideContent, setGuideContent] = useState<string | null>(null);
+  // Denetim ve raporların sınırlandığı konum düğümü (null: tüm proje)
+  const [locationScope, setLocationScope] = useState<string | null>(null);
+  // Bulgulardan tabloya geçildiğinde vurgulanan kalemler
+  const [highlightedItemIds, setHighlightedItemIds] = useState<string[]>([]);
+  // Geri alma geçmişi proje bazında ve yalnızca oturum süresince tutulur.
+  const [itemHistory, setItemHistory] = useState<Record<string, ItemHistory>>({});
 
   const t = (key: keyof typeof translations['TR']) => (translations[language] as any)[key] || key;
 
-  useEffect(() => { localStorage.setItem('metraj_projects', JSON.stringify(projects)); }, [projects]);
-  useEffect(() => { localStorage.setItem('metraj_history', JSON.stringify(auditHistory)); }, [auditHistory]);
-  useEffect(() => { localStorage.setItem('metraj_settings', JSON.stringify(settings)); }, [settings]);
+  useEffect(() => {
+    onSaveError = (store, error) => setSaveErrors(prev => {
+      const { [store]: _, ...rest } = prev;
+      return error ? { ...rest, [store]: (error as any)?.message || String(error) } : rest;
+    });
+    storage.load()
+      .then(data => {
+        projectSync.prime(data.projects);
+        auditSync.prime(data.auditHistory);
+        revisionSync.prime(data.revisions);
+        setProjects(data.projects);
+        setAuditHistory(data.auditHistory);
+        setRevisions(data.revisions);
+        if (data.settings) setSettings(data.settings);
+        setPriceCatalogs(data.catalogs || []);
+        setCustomRules(data.rules || []);
+        setMappingTemplates(data.mappingTemplates || []);
+        setIsLoaded(true);
+      })
+      .catch(err => { console.error(err); setLoadError(err?.message || String(err)); });
+    // Sekme kapanırken bekleyen gecikmeli yazımlar tamamlanır.
+    const flush = () => { projectSync.flush(); auditSync.flush(); revisionSync.flush(); };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  useEffect(() => { if (isLoaded) projectSync.schedule(projects); }, [projects, isLoaded]);
+  useEffect(() => { if (isLoaded) auditSync.schedule(auditHistory); }, [auditHistory, isLoaded]);
+  useEffect(() => { if (isLoaded) revisionSync.schedule(revisions); }, [revisions, isLoaded]);
+  useEffect(() => { if (isLoaded) storage.putSetting('settings', settings).catch(console.error); }, [settings, isLoaded]);
+  useEffect(() => { if (isLoaded) storage.putSetting('catalogs', priceCatalogs).catch(console.error); }, [priceCatalogs, isLoaded]);
+  useEffect(() => { if (isLoaded) storage.putSetting('rules', customRules).catch(console.error); }, [customRules, isLoaded]);
+  useEffect(() => { if (isLoaded) storage.putSetting('mappingTemplates', mappingTemplates).catch(console.error); }, [mappingTemplates, isLoaded]);
 
   const activeProject = useMemo(() => 
     projects.find(p => p.id === currentProjectId), 
     [projects, currentProjectId]
   );
 
-  const validationResults = useMemo(() => 
-    activeProject ? runStructuralRules(activeProject.items) : [], 
-    [activeProject]
+  const aiProvider = useMemo(() => createAIProvider(settings.aiProvider), [settings.aiProvider]);
+
+  // Projeye atanmış katalog yoksa en güncel yılın kataloğu kullanılır.
+  const activeCatalog = useMemo(() =>
+    priceCatalogs.find(c => c.id === activeProject?.priceCatalogId) ||
+    [...priceCatalogs].sort((a, b) => b.year - a.year)[0] || null,
+    [priceCatalogs, activeProject]
+  );
+
+  const runAllRules = (project: Project): ValidationResult[] =>
+    runRules(project, { catalog: activeCatalog, customRules, fullProject: activeProject || undefined });
+
+  // Denetim ekranında gösterilen AI bulguları: etkin proje ve konum kapsamının en son başarılı denetimi.
+  const latestAiFindings = useMemo(() => {
+    const latest = auditHistory.find(a => a.projectId === activeProject?.id && (a.scope ?? null) === locationScope && !a.analysis.failed);
+    return latest?.analysis.findings || [];
+  }, [auditHistory, activeProject?.id, locationScope]);
+
+  const projectRevisions = useMemo(() => revisions.filter(r => r.projectId === activeProject?.id), [revisions, activeProject?.id]);
+
+  const scopedProject = useMemo(() =>
+    activeProject && locationScope !== null
+      ? { ...activeProject, items: filterItemsByLocation(activeProject.items, locationScope) }
+      : activeProject,
+    [activeProject, locationScope]
+  );
+
+  const allValidationResults = useMemo(() => 
+    scopedProject ? runAllRules(scopedProject) : [], 
+    [scopedProject, activeCatalog, customRules]
   );
+  // Gerekçesiyle susturulan bulgular denetime ve AI analizine dahil edilmez.
+  const validationResults = useMemo(() => allValidationResults.filter(r => !isFindingMuted(r, activeProject)), [allValidationResults, activeProject]);
+  const mutedResults = useMemo(() => allValidationResults.filter(r => isFindingMuted(r, activeProject)), [allValidationResults, activeProject]);
+
+  // Kural bulgularında ve projenin son AI analizinde geçen kalemler (tablodaki "yalnızca bulgulu kalemler" süzgeci).
+  const findingItemIds = useMemo(() => {
+    const latestAnalysis = auditHistory.find(a => a.projectId === activeProject?.id)?.analysis;
+    return new Set<string>([
+      ...validationResults.flatMap(r => [r.itemId, ...(r.relatedItemIds || [])]),
+      ...(latestAnalysis?.findings || []).flatMap(f => f.itemIds || [])
+    ]);
+  }, [validationResults, auditHistory, activeProject]);
+
+  const showItemsInTable = (ids: string[], projectId?: string) => {
+    if (projectId && projectId !== currentProjectId) {
+      if (!projects.some(p => p.id === projectId)) return;
+      setCurrentProjectId(projectId);
+      setLocationScope(null);
+    }
+    setHighlightedItemIds(ids);
+    setScreen('INPUT');
+  };
+
+  const updateActiveProject = (patch: Partial<Project>) => {
+    if (!activeProject) return;
+    setProjects(prev => prev.map(p => p.id === activeProject.id ? { ...p, ...patch } : p));
+  };
+
+  const updateRuleConfig = (config: ProjectRuleConfig) => updateActiveProject({ ruleConfig: config });
+
+  const muteFinding = (result: ValidationResult, justification: string) => {
+    const muted: MutedFinding = { ruleId: result.ruleId, itemId: result.itemId, justification, mutedAt: new Date().toISOString() };
+    updateActiveProject({ mutedFindings: [...(activeProject?.mutedFindings || []), muted] });
+  };
+
+  const unmuteFinding = (result: ValidationResult) => {
+    updateActiveProject({ mutedFindings: (activeProject?.mutedFindings || []).filter(m => !(m.ruleId === result.ruleId && m.itemId === result.itemId)) });
+  };
+
+  // Aynı başlık parmak izine sahip eski şablonun yerini alır.
+  const saveMappingTemplate = (template: MappingTemplate) =>
+    setMappingTemplates(prev => [...prev.filter(t => t.fingerprint !== template.fingerprint), template]);
+
+  const updatePeriods = (periods: PaymentPeriod[]) => {
+    if (!activeProject) return;
+    setProjects(prev => prev.map(p => p.id === activeProject.id ? { ...p, periods } : p));
+  };
+
+  const setProjectCatalog = (catalogId: string) => {
+    if (!activeProject) return;
+    setProjects(prev => prev.map(p => p.id === activeProject.id ? { ...p, priceCatalogId: catalogId } : p));
+  };
 
   const createProject = (name: string) => {
-    const newProj: Project = { id: Date.now().toString(), name, createdAt: new Date().toISOString(), items: [] };
+    const newProj: Project = { id: Date.now().toString(), name, createdAt: new Date().toISOString(), items: [], schemaVersion: CURRENT_SCHEMA_VERSION };
     setProjects(prev => [...prev, newProj]);
     setCurrentProjectId(newProj.id);
     setScreen('INPUT');
   };
 
+  const saveRevision = (name: string): boolean => {
+    if (!activeProject) return false;
+    try {
+      const revision = createRevision(activeProject, revisions, name);
+      setRevisions(prev => [...prev, revision]);
+      return true;
+    } catch (err: any) {
+      alert(err.message);
+      return false;
+    }
+  };
+
+  const deleteRevision = (id: string) => setRevisions(prev => prev.filter(r => r.id !== id));
+
+  const branchRevision = (id: string) => {
+    const revision = revisions.find(r => r.id === id);
+    if (!activeProject || !revision) return;
+    const branch = branchFromRevision(activeProject, revision);
+    setProjects(prev => [...prev, branch.project]);
+    setRevisions(prev => [...prev, branch.revision]);
+    setCurrentProjectId(branch.project.id);
+    setLocationScope(null);
+    setScreen('INPUT');
+  };
+
   const deleteProject = (id: string) => {
     setProjects(prev => prev.filter(p => p.id !== id));
+    setRevisions(prev => prev.filter(r => r.projectId !== id));
+    setItemHistory(prev => { const { [id]: _, ...rest } = prev; return rest; });
     if (currentProjectId === id) setCurrentProjectId(null);
   };
 
-  const updateItems = (newItems: MetrajItem[]) => {
-    if (!currentProjectId) return;
-    setProjects(prev => prev.map(p => p.id === currentProjectId ? { ...p, items: newItems } : p));
+  const updateItems = (newItems: MetrajItem[], label: string) => {
+    if (!activeProject) return;
+    const before = activeProject.items;
+    setItemHistory(prev => ({ ...prev, [activeProject.id]: pushHistory(prev[activeProject.id], before, label) }));
+    setProjects(prev => prev.map(p => p.id === activeProject.id ? { ...p, items: newItems } : p));
   };
 
-  const runFullAudit = async () => {
+  const travelHistory = (direction: 'undo' | 'redo', steps = 1) => {
     if (!activeProject) return;
+    const travel = direction === 'undo' ? undoHistory : redoHistory;
+    const result = travel(itemHistory[activeProject.id], activeProject.items, steps);
+    if (!result) return;
+    setItemHistory(prev => ({ ...prev, [activeProject.id]: result.history }));
+    setProjects(prev => prev.map(p => p.id === activeProject.id ? { ...p, items: result.items } : p));
+  };
+
+  // Bulgunun önerdiği düzeltmeyi uygular; geri alma geçmişine tek adım olarak eklenir.
+  const applyFix = (result: ValidationResult) => {
+    if (!activeProject || !result.fix) return;
+    const { fix } = result;
+    const target = activeProject.items.find(i => i.id === result.itemId);
+    if (!target) return;
+    const label = `${t('historyFixed')}: ${target.pozNumber} (${fix.label})`;
+    if (fix.removeItem) {
+      // Silme geri alınabilse de tek tıkla veri kaybı olmaması için onay istenir.
+      if (!confirm(`${target.pozNumber}: ${t('removeItemFixConfirm')}`)) return;
+      updateItems(activeProject.items.filter(i => i.id !== target.id && i.parentId !== target.id), label);
+      return;
+    }
+    const patch = fix.patch || {};
+    // Düzeltilen boyutların eski formülleri geçersiz kalır.
+    const formulas = target.formulas && Object.fromEntries(Object.entries(target.formulas).filter(([field]) => !(field in patch)));
+    updateItems(activeProject.items.map(i => {
+      if (i.id !== target.id) return i;
+      const fixed = recalculateItem({ ...i, ...patch, formulas });
+      // Miktar elle farklı girilmemişse yeni hesapla birlikte güncellenir.
+      const wasInSync = i.totalQuantity === i.calculatedQuantity;
+      return patch.totalQuantity === undefined && wasInSync ? { ...fixed, totalQuantity: fixed.calculatedQuantity } : fixed;
+    }), label);
+  };
+
+  useEffect(() => {
+    if (screen !== 'INPUT') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Metin alanlarında tarayıcının kendi geri alması çalışmalıdır.
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+      e.preventDefault();
+      travelHistory(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const runFullAudit = async () => {
+    if (!scopedProject) return;
     setIsAnalyzing(true);
     setScreen('VALIDATION');
     try {
-      const results = runStructuralRules(activeProject.items);
-      const analysis = await getAIExpertAnalysis(activeProject.items, results, language);
+      const results = runAllRules(scopedProject).filter(r => !isFindingMuted(r, scopedProject));
+      const analysis = await getAIExpertAnalysis(scopedProject.items, results, aiProvider, language, setAnalysisProgress);
       setAiAnalysis(analysis);
-      const newRecord: AuditRecord = { id: Date.now().toString(), projectId: activeProject.id, projectName: activeProject.name, date: new Date().toISOString(), analysis, itemCount: activeProject.items.length, riskScore: analysis.riskScore };
+      const localRisk = computeRiskScore(scopedProject.items, results, scopedProject.ruleConfig?.params.QUANTITY_MISMATCH?.tolerances);
+      const projectName = locationScope !== null ? `${scopedProject.name} (${locationScope.split('|').filter(Boolean).join(' / ') || t('unassigned')})` : scopedProject.name;
+      const newRecord: AuditRecord = { id: Date.now().toString(), projectId: scopedProject.id, projectName, scope: locationScope, date: new Date().toISOString(), analysis, itemCount: scopedProject.items.length, riskScore: analysis.failed ? localRisk.score : analysis.riskScore, localRisk, validationResults: results, items: scopedProject.items, stats: buildAuditStats(scopedProject.items), schemaVersion: CURRENT_SCHEMA_VERSION };
       setAuditHistory(prev => [newRecord, ...prev]);
       setScreen('AI_PANEL');
-    } catch (err) { console.error(err); } finally { setIsAnalyzing(false); setIsSidebarOpen(false); }
+    } catch (err) { console.error(err); } finally { setIsAnalyzing(false); setAnalysisProgress(null); setIsSidebarOpen(false); }
+  };
+
+  const exportProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    downloadBackup(createBackup('project', { projects: [project], auditHistory: auditHistory.filter(a => a.projectId === id), revisions: revisions.filter(r => r.projectId === id) }), project.name);
+  };
+
+  const exportWorkspace = () => {
+    // API anahtarı yedek dosyasına yazılmaz.
+    const exportedSettings = settings.aiProvider ? { ...settings, aiProvider: { ...settings.aiProvider, apiKey: undefined } } : settings;
+    const backup = createBackup('workspace', { projects, auditHistory, revisions, settings: exportedSettings, priceCatalogs, customRules, mappingTemplates });
+    downloadBackup(backup, `metraj-${new Date().toISOString().slice(0, 10)}`);
+  };
+
+  // Proje yedeği mevcut projelere eklenir; çalışma alanı yedeği onay alınarak tüm verinin yerine geçer.
+  const restoreBackup = (backup: BackupFile) => {
+    if (backup.kind === 'workspace') {
+      if (!confirm(t('restoreWorkspaceConfirm'))) return;
+      setProjects(backup.projects);
+      setAuditHistory(backup.auditHistory);
+      setRevisions(backup.revisions || []);
+      if (backup.settings) setSettings(backup.settings);
+      setPriceCatalogs(backup.priceCatalogs || []);
+      setCustomRules(backup.customRules || []);
+      setMappingTemplates(backup.mappingTemplates || []);
+      setItemHistory({});
+      setCurrentProjectId(null);
+      setScreen('DASHBOARD');
+      return;
+    }
+    const [incoming] = backup.projects;
+    const overwrite = projects.some(p => p.id === incoming.id) && confirm(t('restoreOverwriteConfirm'));
+    const project = projects.some(p => p.id === incoming.id) && !overwrite
+      ? { ...incoming, id: Date.now().toString(), name: `${incoming.name} (${t('restoredCopy')})` }
+      : incoming;
+    // Kopya olarak geri yüklenen denetim ve revizyonlar yeni kimlik alır; aksi halde özgün projenin aynı kimlikli kayıtlarının yerini alırlar.
+    const isCopy = project.id !== incoming.id;
+    const relink = <T extends { id: string, projectId: string }>(incomingRecords: T[], existing: T[]): T[] => {
+      const existingIds = new Set(existing.map(r => r.id));
+      return incomingRecords.map((r, i) => isCopy || (!overwrite && existingIds.has(r.id))
+        ? { ...r, id: `${Date.now()}-${i}`, projectId: project.id }
+        : { ...r, projectId: project.id });
+    };
+    const records = relink(backup.auditHistory, auditHistory);
+    const restoredRevisions = relink(backup.revisions || [], revisions);
+    setProjects(prev => overwrite ? prev.map(p => p.id === project.id ? project : p) : [...prev, project]);
+    setAuditHistory(prev => {
+      if (!overwrite) return [...records, ...prev];
+      const ids = new Set(records.map(a => a.id));
+      return [...records, ...prev.filter(a => !ids.has(a.id))];
+    });
+    // Üzerine yazılan projenin revizyonları yedektekilerle değiştirilir.
+    setRevisions(prev => [...prev.filter(r => !overwrite || r.projectId !== project.id), ...restoredRevisions]);
+    setItemHistory(prev => { const { [project.id]: _, ...rest } = prev; return rest; });
+    setScreen('DASHBOARD');
   };
 
   const clearAllData = () => {
     if (confirm(t('dangerZone'))) {
-      setProjects([]); setAuditHistory([]); setCurrentProjectId(null); setScreen('ONBOARDING');
-      localStorage.clear();
+      setProjects([]); setAuditHistory([]); setRevisions([]); setItemHistory({}); setPriceCatalogs([]); setCustomRules([]); setMappingTemplates([]); setCurrentProjectId(null); setScreen('ONBOARDING');
+      storage.clear().catch(console.error);
     }
   };
 
@@ -147,6 +535,24 @@ const App: React.FC = () => {
     </div>
   );
 
+  if (loadError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+        <div className="max-w-lg bg-white border border-red-100 rounded-3xl shadow-sm p-8 space-y-4 text-center">
+          <AlertTriangle className="mx-auto text-red-500" size={40} />
+          <h2 className="text-xl font-black">{t('loadFailed')}</h2>
+          <p className="text-sm text-gray-500">{t('loadFailedHint')}</p>
+          <pre className="text-xs text-left bg-gray-50 rounded-xl p-3 whitespace-pre-wrap text-red-600">{loadError}</pre>
+          <button onClick={() => window.location.reload()} className="px-6 py-3 bg-gray-900 text-white rounded-xl font-bold">{t('retry')}</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isLoaded) {
+    return <div className="min-h-screen flex items-center justify-center bg-gray-50"><Loader2 className="animate-spin h-10 w-10 text-blue-600" /></div>;
+  }
+
   return (
     <div className="min-h-screen flex flex-col lg:flex-row bg-gray-50 text-gray-900">
       <HelpModal />
@@ -168,6 +574,8 @@ const App: React.FC = () => {
             <NavItem icon={PlusCircle} label={t('input')} target="INPUT" active={screen === 'INPUT'} setScreen={setScreen} setIsSidebarOpen={setIsSidebarOpen} isSidebarCollapsed={isSidebarCollapsed} />
             <NavItem icon={History} label={t('history')} target="HISTORY" active={screen === 'HISTORY'} setScreen={setScreen} setIsSidebarOpen={setIsSidebarOpen} isSidebarCollapsed={isSidebarCollapsed} />
             <NavItem icon={ShieldAlert} label={t('aiAdvisor')} target="AI_PANEL" active={screen === 'AI_PANEL'} setScreen={setScreen} setIsSidebarOpen={setIsSidebarOpen} isSidebarCollapsed={isSidebarCollapsed} />
+            <NavItem icon={GitBranch} label={t('revisions')} target="REVISIONS" active={screen === 'REVISIONS'} setScreen={setScreen} setIsSidebarOpen={setIsSidebarOpen} isSidebarCollapsed={isSidebarCollapsed} />
+            <NavItem icon={Wallet} label={t('hakedis')} target="HAKEDIS" active={screen === 'HAKEDIS'} setScreen={setScreen} setIsSidebarOpen={setIsSidebarOpen} isSidebarCollapsed={isSidebarCollapsed} />
             <NavItem icon={FileText} label={t('reports')} target="REPORTS" active={screen === 'REPORTS'} setScreen={setScreen} setIsSidebarOpen={setIsSidebarOpen} isSidebarCollapsed={isSidebarCollapsed} />
           </nav>
           <div className="p-4 border-t mt-auto">
@@ -180,14 +588,22 @@ const App: React.FC = () => {
       )}
       <main className="flex-1">
         <div className="max-w-7xl mx-auto p-4 lg:p-8">
+          {Object.keys(saveErrors).length > 0 && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-2xl flex items-start gap-3 text-red-700">
+              <AlertTriangle className="flex-none mt-0.5" size={20} />
+              <div><p className="font-bold">{t('saveFailed')}</p><p className="text-xs mt-1">{[...new Set(Object.values(saveErrors))].join(' · ')}</p></div>
+            </div>
+          )}
           {screen === 'ONBOARDING' && <OnboardingView onComplete={() => setScreen('DASHBOARD')} t={t} />}
-          {screen === 'DASHBOARD' && <ProjectHubView projects={projects} onCreate={createProject} onSelect={(id:string) => { setCurrentProjectId(id); setScreen('INPUT'); }} onDelete={deleteProject} onInfo={() => setGuideContent(t('guideDashboard'))} t={t} SectionHeader={SectionHeader} />}
-          {screen === 'INPUT' && <MetrajInputView activeProject={activeProject} setItems={updateItems} onAudit={runFullAudit} onInfo={() => setGuideContent(t('guideInput'))} language={language} t={t} SectionHeader={SectionHeader} />}
-          {screen === 'VALIDATION' && <ValidationView results={validationResults} isAnalyzing={isAnalyzing} onInfo={() => setGuideContent(t('guideAudit'))} t={t} SectionHeader={SectionHeader} />}
-          {(screen === 'AI_PANEL' || screen === 'VIEW_AUDIT') && <AIExpertPanel analysis={screen === 'VIEW_AUDIT' ? viewingAudit?.analysis : aiAnalysis} isAnalyzing={isAnalyzing} title={screen === 'VIEW_AUDIT' ? viewingAudit?.projectName : undefined} onInfo={() => setGuideContent(t('guideAI'))} t={t} SectionHeader={SectionHeader} />}
-          {screen === 'HISTORY' && <AuditHistoryView history={auditHistory} onView={(record: AuditRecord) => { setViewingAudit(record); setScreen('VIEW_AUDIT'); }} onInfo={() => setGuideContent(t('guideHistory'))} t={t} SectionHeader={SectionHeader} />}
-          {screen === 'SETTINGS' && <SettingsView settings={settings} setSettings={setSettings} onClear={clearAllData} onInfo={() => setGuideContent(t('guideSettings'))} t={t} SectionHeader={SectionHeader} />}
-          {screen === 'REPORTS' && <ReportsView activeProject={activeProject} settings={settings} onInfo={() => setGuideContent(t('guideReports'))} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'DASHBOARD' && <ProjectHubView projects={projects} onCreate={createProject} onSelect={(id:string) => { setCurrentProjectId(id); setLocationScope(null); setHighlightedItemIds([]); setScreen('INPUT'); }} onDelete={deleteProject} onExport={exportProject} onInfo={() => setGuideContent(t('guideDashboard'))} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'INPUT' && <MetrajInputView activeProject={activeProject} mappingTemplates={mappingTemplates} onSaveTemplate={saveMappingTemplate} setItems={updateItems} history={activeProject ? itemHistory[activeProject.id] : undefined} onUndo={(steps?: number) => travelHistory('undo', steps)} onRedo={(steps?: number) => travelHistory('redo', steps)} onAudit={runFullAudit} highlightedIds={highlightedItemIds} onClearHighlight={() => setHighlightedItemIds([])} findingItemIds={findingItemIds} onInfo={() => setGuideContent(t('guideInput'))} aiProvider={aiProvider} language={language} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'VALIDATION' && <ValidationView results={validationResults} mutedResults={mutedResults} aiFindings={latestAiFindings} project={activeProject} ruleDefinitions={getRuleDefinitions(customRules)} onUpdateRuleConfig={updateRuleConfig} onMute={muteFinding} onUnmute={unmuteFinding} onApplyFix={applyFix} onShowItems={showItemsInTable} allItems={activeProject?.items || []} scope={locationScope} onScopeChange={setLocationScope} isAnalyzing={isAnalyzing} onInfo={() => setGuideContent(t('guideAudit'))} t={t} SectionHeader={SectionHeader} />}
+          {(screen === 'AI_PANEL' || screen === 'VIEW_AUDIT') && <AIExpertPanel analysis={screen === 'VIEW_AUDIT' ? viewingAudit?.analysis : aiAnalysis} isAnalyzing={isAnalyzing} progress={analysisProgress} title={screen === 'VIEW_AUDIT' ? viewingAudit?.projectName : undefined} record={screen === 'VIEW_AUDIT' ? viewingAudit : auditHistory.find(a => a.analysis === aiAnalysis)} onPrint={(record: AuditRecord) => printAuditReport(record, settings)} projects={projects} onShowItems={showItemsInTable} onInfo={() => setGuideContent(t('guideAI'))} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'HISTORY' && <AuditHistoryView history={auditHistory} onView={(record: AuditRecord) => { setViewingAudit(record); setScreen('VIEW_AUDIT'); }} onPrint={(record: AuditRecord) => printAuditReport(record, settings)} onInfo={() => setGuideContent(t('guideHistory'))} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'SETTINGS' && <SettingsView settings={settings} setSettings={setSettings} mappingTemplates={mappingTemplates} onDeleteTemplate={(id: string) => setMappingTemplates(prev => prev.filter(t => t.id !== id))} customRules={customRules} onAddRules={(rules: RuleDefinition[]) => setCustomRules(prev => [...prev, ...rules])} onDeleteRule={(id: string) => setCustomRules(prev => prev.filter(r => r.id !== id))} catalogs={priceCatalogs} onAddCatalog={(c: PriceCatalog) => setPriceCatalogs(prev => [...prev, c])} onDeleteCatalog={(id: string) => setPriceCatalogs(prev => prev.filter(c => c.id !== id))} onExportWorkspace={exportWorkspace} onRestore={restoreBackup} getStorageUsage={storage.usage} onClear={clearAllData} onInfo={() => setGuideContent(t('guideSettings'))} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'REVISIONS' && <RevisionsView key={activeProject?.id} activeProject={activeProject} revisions={projectRevisions} onSave={saveRevision} onDelete={deleteRevision} onBranch={branchRevision} onInfo={() => setGuideContent(t('guideRevisions'))} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'HAKEDIS' && <HakedisView activeProject={activeProject} activeCatalog={activeCatalog} setPeriods={updatePeriods} onInfo={() => setGuideContent(t('guideHakedis'))} t={t} SectionHeader={SectionHeader} />}
+          {screen === 'REPORTS' && <ReportsView activeProject={scopedProject} allItems={activeProject?.items || []} findings={validationResults} scope={locationScope} onScopeChange={setLocationScope} settings={settings} catalogs={priceCatalogs} activeCatalog={activeCatalog} onSelectCatalog={setProjectCatalog} onInfo={() => setGuideContent(t('guideReports'))} t={t} SectionHeader={SectionHeader} />}
         </div>
       </main>
     </div>
@@ -200,18 +616,22 @@ const NavItem = ({ icon: Icon, label, target, active, setScreen, setIsSidebarOpe
   </button>
 );
 
-const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t, SectionHeader }: any) => {
+const MetrajInputView = ({ activeProject, mappingTemplates, onSaveTemplate, setItems, history, onUndo, onRedo, onAudit, highlightedIds, onClearHighlight, findingItemIds, onInfo, aiProvider, language, t, SectionHeader }: any) => {
   if (!activeProject) return <div className="py-20 text-center"><Info size={40} className="mx-auto mb-4 opacity-20" /><p>{t('noProjectSelected')}</p></div>;
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isExcelLoading, setIsExcelLoading] = useState(false);
   const [analysisDuration, setAnalysisDuration] = useState<number | null>(null);
   
-  const [importPreview, setImportPreview] = useState<{ 
-    mapping: Record<string, number>, 
-    rawRows: any[][], 
-    startRow: number 
+  // Adım 1: sayfa seçimi (groups = null). Adım 2: başlık grubu başına kolon eşleşmesi ve önizleme.
+  const [importPreview, setImportPreview] = useState<{
+    sheets: ImportSheet[],
+    selected: string[],
+    groups: ImportMappingGroup[] | null,
+    activeGroup: number,
+    sheetAsLocation: boolean
   } | null>(null);
+  const [importDiff, setImportDiff] = useState<{ entries: DiffEntry[], accepted: Set<string> } | null>(null);
 
   const [showAddForm, setShowAddForm] = useState(false);
   const [newRow, setNewRow] = useState<Partial<MetrajItem>>({
@@ -220,72 +640,54 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
 
   const calculatedVal = useMemo(() => calculateQuantity(newRow), [newRow]);
 
-  const parseMetrajValue = (val: any): number => {
-    if (val === undefined || val === null || val === '') return 0;
-    if (typeof val === 'number') return val;
-    const cleaned = String(val)
-      .replace(/\./g, '')
-      .replace(/,/g, '.')
-      .replace(/[^-0-9.]/g, '');
-    return parseFloat(cleaned) || 0;
-  };
-
-  const parsedItemsPreview = useMemo(() => {
-    if (!importPreview) return [];
-    const { mapping, rawRows, startRow } = importPreview;
-    return rawRows.slice(startRow).filter(r => r[mapping.pozNumber] || r[mapping.description]).map((cols, i) => {
-      const itemBase: Partial<MetrajItem> = {
-        pozNumber: String(cols[mapping.pozNumber] || ''),
-        description: String(cols[mapping.description] || ''),
-        unit: String(cols[mapping.unit] || 'm3'),
-        multiplier: parseMetrajValue(cols[mapping.multiplier]) || 1,
-        x: parseMetrajValue(cols[mapping.x]),
-        y: parseMetrajValue(cols[mapping.y]),
-        z: parseMetrajValue(cols[mapping.z]),
-        unitWeight: parseMetrajValue(cols[mapping.unitWeight]),
-        count: parseMetrajValue(cols[mapping.count]) || 1,
-        totalQuantity: parseMetrajValue(cols[mapping.totalQuantity]),
-        category: (cols[mapping.category] as any) || 'Concrete'
-      };
-      return {
-        ...itemBase,
-        id: `excel-${Date.now()}-${i}`,
-        area: (itemBase.x || 0) * (itemBase.y || 0),
-        volume: (itemBase.x || 0) * (itemBase.y || 0) * (itemBase.z || 0),
-        calculatedQuantity: calculateQuantity(itemBase)
-      } as MetrajItem;
-    });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showHistory, setShowHistory] = useState(false);
+  const tolerances = activeProject.ruleConfig?.params.QUANTITY_MISMATCH?.tolerances || DEFAULT_TOLERANCES;
+  const [bulkEdit, setBulkEdit] = useState<BulkEditState>(EMPTY_BULK_EDIT);
+  const [groupByLocation, setGroupByLocation] = useState(false);
+  const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set());
+  const [onlyWithFindings, setOnlyWithFindings] = useState(false);
+  const highlighted = useMemo(() => new Set<string>(highlightedIds), [highlightedIds]);
+  // Düşüm satırları ana kalemleriyle birlikte gösterilir.
+  const visibleItems: MetrajItem[] = useMemo(() => onlyWithFindings
+    ? activeProject.items.filter((it: MetrajItem) => findingItemIds.has(it.id) || (it.parentId && findingItemIds.has(it.parentId)))
+    : activeProject.items, [onlyWithFindings, findingItemIds, activeProject.items]);
+  const locationTree = useMemo(() => groupByLocation ? buildLocationTree(visibleItems) : [], [groupByLocation, visibleItems]);
+
+  // Bulgudan gelindiğinde ilk vurgulanan satıra kaydırılır; daraltılmış konum düğümleri açılır.
+  useEffect(() => {
+    if (!highlightedIds.length) return;
+    setCollapsedNodes(new Set());
+    const frame = requestAnimationFrame(() => document.getElementById(`item-row-${highlightedIds[0]}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    return () => cancelAnimationFrame(frame);
+  }, [highlightedIds]);
+
+  const parsedImport = useMemo(() => {
+    if (!importPreview?.groups) return [];
+    const { sheets, groups, sheetAsLocation } = importPreview;
+    const batchId = Date.now();
+    return groups.flatMap(group => group.sheetNames.map(name => ({
+      sheet: name,
+      ...parseSheetItems(name, sheets.find(s => s.name === name)!.rows, group.mapping, group.startRow, { batchId, sheetAsLocation })
+    })));
   }, [importPreview]);
+  const parsedItemsPreview = useMemo(() => parsedImport.flatMap(p => p.items), [parsedImport]);
+  const importIssues = useMemo(() => parsedImport.flatMap(p => p.issues), [parsedImport]);
+  const [showIssues, setShowIssues] = useState(false);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]; if (!file) return;
-    setIsExcelLoading(true);
     setAnalysisDuration(null);
-    const startTime = performance.now();
-    
+
     const reader = new FileReader();
-    reader.onload = async (event) => {
+    reader.onload = (event) => {
       try {
-        const data = new Uint8Array(event.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as any[][];
-        
-        const { mapping, startRow } = await analyzeExcelStructure(jsonData.slice(0, 10), language);
-        
-        const endTime = performance.now();
-        setAnalysisDuration(Number(((endTime - startTime) / 1000).toFixed(2)));
-        
-        setImportPreview({ 
-          mapping, 
-          rawRows: jsonData, 
-          startRow 
-        });
-      } catch (err) { 
+        const sheets = readWorkbookSheets(new Uint8Array(event.target?.result as ArrayBuffer));
+        const firstFilled = sheets.find(s => s.rowCount > 0);
+        setImportPreview({ sheets, selected: firstFilled ? [firstFilled.name] : [], groups: null, activeGroup: 0, sheetAsLocation: sheets.length > 1 });
+      } catch (err) {
         console.error(err);
-        alert("Excel analysis error. Check console."); 
-      } finally { 
-        setIsExcelLoading(false); 
+        alert("Excel analysis error. Check console.");
       }
     };
     reader.readAsArrayBuffer(file);
@@ -294,33 +696,299 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
 
   const addItem = (e: React.FormEvent) => {
     e.preventDefault();
-    const item: MetrajItem = {
-      ...newRow as MetrajItem,
-      id: Date.now().toString(),
-      area: (newRow.x || 0) * (newRow.y || 0),
-      volume: (newRow.x || 0) * (newRow.y || 0) * (newRow.z || 0),
-      calculatedQuantity: calculatedVal
-    };
-    setItems([item, ...activeProject.items]);
+    const item = recalculateItem({ ...newRow as MetrajItem, id: Date.now().toString() });
+    setItems([item, ...activeProject.items], `${t('historyAdded')}: ${item.pozNumber}`);
     setShowAddForm(false);
-    setNewRow({ pozNumber: '', description: '', unit: 'm3', multiplier: 1, x: 0, y: 0, z: 0, count: 1, unitWeight: 0, totalQuantity: 0, category: 'Concrete' });
+    setNewRow({ pozNumber: '', description: '', unit: 'm3', multiplier: 1, x: 0, y: 0, z: 0, count: 1, unitWeight: 0, totalQuantity: 0, category: 'Concrete', location: newRow.location });
+  };
+
+  const updateItem = (id: string, patch: Partial<MetrajItem>) => {
+    const target = activeProject.items.find((it: MetrajItem) => it.id === id);
+    if (target?.isDeduction && patch.totalQuantity !== undefined) patch = { ...patch, totalQuantity: -Math.abs(patch.totalQuantity) };
+    setItems(
+      activeProject.items.map((it: MetrajItem) => it.id === id ? recalculateItem({ ...it, ...patch }) : it),
+      `${t('historyEdited')}: ${target?.pozNumber || ''} (${Object.keys(patch).join(', ')})`
+    );
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = activeProject.items.length > 0 && activeProject.items.every((it: MetrajItem) => selectedIds.has(it.id));
+
+  const applyBulkEdit = () => {
+    const patch: Partial<MetrajItem> = {};
+    if (bulkEdit.category) patch.category = bulkEdit.category as MetrajCategory;
+    if (bulkEdit.unit) patch.unit = bulkEdit.unit;
+    if (bulkEdit.multiplier !== '') patch.multiplier = parseFloat(bulkEdit.multiplier) || 1;
+    const locationPatch: ItemLocation = {};
+    if (bulkEdit.block) locationPatch.block = bulkEdit.block;
+    if (bulkEdit.floor) locationPatch.floor = bulkEdit.floor;
+    if (bulkEdit.element) locationPatch.element = bulkEdit.element as StructuralElement;
+    const hasLocationPatch = Object.keys(locationPatch).length > 0;
+    setItems(
+      activeProject.items.map((it: MetrajItem) => selectedIds.has(it.id)
+        ? recalculateItem({ ...it, ...patch, ...(hasLocationPatch ? { location: { ...it.location, ...locationPatch } } : {}) })
+        : it),
+      `${t('historyBulkEdit')}: ${selectedIds.size} ${t('historyRows')}`
+    );
+    setBulkEdit(EMPTY_BULK_EDIT);
   };
 
+  // Seçili kalemleri yeni bir bağlantı grubunda toplar (beton + kalıp + donatı aynı eleman olarak denetlenir).
+  const linkSelected = (link: boolean) => {
+    const used = activeProject.items.map((it: MetrajItem) => parseInt((it.linkGroup || '').replace(/\D/g, ''), 10) || 0);
+    const group = link ? `G${Math.max(0, ...used) + 1}` : undefined;
+    setItems(
+      activeProject.items.map((it: MetrajItem) => selectedIds.has(it.id) ? { ...it, linkGroup: group } : it),
+      `${link ? t('historyLinked') : t('historyUnlinked')}: ${selectedIds.size} ${t('historyRows')}`
+    );
+  };
+
+  const toggleNode = (key: string) => {
+    setCollapsedNodes(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const addDeduction = (parent: MetrajItem) => {
+    const deduction = recalculateItem({
+      ...parent,
+      id: Date.now().toString(),
+      description: `${t('deduction')}: `,
+      x: 0, y: 0, z: 0, multiplier: 1, count: 1, totalQuantity: 0,
+      formulas: undefined, rebar: undefined,
+      // Elle eklenen düşüm dosyadan gelmez; kaynak bilgisi kopyalanırsa yeniden içe aktarımda kaldırılmış sayılır.
+      sourceSheet: undefined, sourceKey: undefined, linkGroup: undefined,
+      isDeduction: true, parentId: parent.id
+    });
+    const items: MetrajItem[] = [...activeProject.items];
+    let insertAt = items.findIndex(it => it.id === parent.id) + 1;
+    while (insertAt < items.length && items[insertAt].parentId === parent.id) insertAt++;
+    items.splice(insertAt, 0, deduction);
+    setItems(items, `${t('historyAdded')}: ${parent.pozNumber} (${t('deduction')})`);
+  };
+
+  // Ana kalem silindiğinde ona bağlı düşüm satırları da silinir.
+  const removeItems = (ids: Set<string>) =>
+    activeProject.items.filter((it: MetrajItem) => !ids.has(it.id) && !(it.parentId && ids.has(it.parentId)));
+
+  const deleteItem = (id: string) => {
+    const target = activeProject.items.find((it: MetrajItem) => it.id === id);
+    setItems(removeItems(new Set([id])), `${t('historyDeleted')}: ${target?.pozNumber || ''}`);
+    setSelectedIds(prev => { const next = new Set(prev); next.delete(id); return next; });
+  };
+
+  const deleteSelected = () => {
+    setItems(removeItems(selectedIds), `${t('historyDeleted')}: ${selectedIds.size} ${t('historyRows')}`);
+    setSelectedIds(new Set());
+  };
+
+  const renderItemRow = (item: MetrajItem) => {
+    const hasError = isQuantityMismatch(item, tolerances);
+    const hasDeductions = !item.isDeduction && activeProject.items.some((it: MetrajItem) => it.parentId === item.id);
+    return (
+      <tr key={item.id} id={`item-row-${item.id}`} className={`transition-colors ${highlighted.has(item.id) ? 'bg-amber-50 outline outline-2 -outline-offset-2 outline-amber-400' : selectedIds.has(item.id) ? 'bg-blue-50/60' : item.isDeduction ? 'bg-red-50/30 hover:bg-red-50/60' : 'hover:bg-gray-50'}`}>
+        <td className="p-4"><input type="checkbox" checked={selectedIds.has(item.id)} onChange={() => toggleSelected(item.id)} /></td>
+        <td className={`p-2 min-w-[220px] ${item.isDeduction ? 'pl-8' : ''}`}>
+          {item.isDeduction ? (
+            <div className="px-2 py-1 font-bold text-red-500 flex items-center gap-1"><MinusCircle size={12} /> {item.pozNumber}</div>
+          ) : (
+            <CellInput value={item.pozNumber} onChange={(v: string) => updateItem(item.id, { pozNumber: v })} className="font-bold text-blue-600" />
+          )}
+          <CellInput value={item.description} onChange={(v: string) => updateItem(item.id, { description: v })} className="text-gray-500" />
+        </td>
+        <td className="p-2">
+          <select className="bg-transparent px-2 py-1 rounded-lg outline-none hover:bg-gray-100 focus:ring-2 focus:ring-blue-500" value={item.category} onChange={e => updateItem(item.id, { category: e.target.value as MetrajCategory, rebar: undefined })}>
+            {CATEGORY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          {item.category === 'Reinforcement' && (
+            <label className="flex items-center gap-1 px-2 mt-1 text-[10px] font-bold text-gray-400 uppercase">
+              <input type="checkbox" checked={!!item.rebar} onChange={e => updateItem(item.id, toggleRebar(item, e.target.checked))} /> {t('rebarModeShort')}
+            </label>
+          )}
+        </td>
+        <td className="p-2 w-36">
+          <div className="flex gap-1">
+            <CellInput value={item.location?.block || ''} onChange={(v: string) => updateItem(item.id, { location: { ...item.location, block: v } })} className="text-gray-600" />
+            <CellInput value={item.location?.floor || ''} onChange={(v: string) => updateItem(item.id, { location: { ...item.location, floor: v } })} className="text-gray-600" />
+          </div>
+          <select className="w-full bg-transparent px-2 py-1 rounded-lg outline-none text-gray-500 hover:bg-gray-100 focus:ring-2 focus:ring-blue-500" value={item.location?.element || ''} onChange={e => updateItem(item.id, { location: { ...item.location, element: (e.target.value || undefined) as StructuralElement } })}>
+            <option value="">{t('element')}: —</option>
+            {ELEMENT_TYPES.map(el => <option key={el} value={el}>{t(`element${el}`)}</option>)}
+          </select>
+          {item.linkGroup && <span title={t('linkGroup')} className="ml-2 inline-flex items-center gap-1 text-[10px] font-black text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-full"><Link2 size={10} /> {item.linkGroup}</span>}
+        </td>
+        <td className="p-2">
+          <select className="bg-transparent px-2 py-1 rounded-lg outline-none font-medium hover:bg-gray-100 focus:ring-2 focus:ring-blue-500" value={item.unit} onChange={e => updateItem(item.id, { unit: e.target.value })}>
+            {(UNIT_OPTIONS.includes(item.unit) ? UNIT_OPTIONS : [item.unit, ...UNIT_OPTIONS]).map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </td>
+        {item.rebar ? (
+          <td colSpan={3} className="p-2"><RebarEditor spec={item.rebar} onChange={(rebar: RebarSpec) => updateItem(item.id, { rebar })} t={t} compact /></td>
+        ) : (<>
+          <td className="p-2 w-20"><FormulaInput value={item.x} formula={item.formulas?.x} onChange={(v: number, formula?: string) => updateItem(item.id, withDimension(item, 'x', v, formula))} className={`${CELL_INPUT_CLASS} text-center`} /></td>
+          <td className="p-2 w-20"><FormulaInput value={item.y} formula={item.formulas?.y} onChange={(v: number, formula?: string) => updateItem(item.id, withDimension(item, 'y', v, formula))} className={`${CELL_INPUT_CLASS} text-center`} /></td>
+          <td className="p-2 w-20"><FormulaInput value={item.z} formula={item.formulas?.z} onChange={(v: number, formula?: string) => updateItem(item.id, withDimension(item, 'z', v, formula))} className={`${CELL_INPUT_CLASS} text-center`} /></td>
+        </>)}
+        <td className="p-2 w-20"><FormulaInput value={item.multiplier} formula={item.formulas?.multiplier} onChange={(v: number, formula?: string) => updateItem(item.id, withDimension(item, 'multiplier', v || 1, formula))} className={`${CELL_INPUT_CLASS} text-center`} /></td>
+        <td className="p-4 text-center text-gray-400">{!item.rebar && item.area ? item.area.toFixed(2) : '-'}</td>
+        <td className="p-4 text-center text-gray-400">{!item.rebar && item.volume ? item.volume.toFixed(2) : '-'}</td>
+        {item.rebar ? (
+          <td className="p-4 text-center text-gray-400">{getNominalWeight(item.rebar.diameter)} kg/m</td>
+        ) : (
+          <td className="p-2 w-24"><CellInput type="number" value={item.unitWeight} onChange={(v: number) => updateItem(item.id, { unitWeight: v })} className="text-center" /></td>
+        )}
+        <td className="p-4 text-right font-bold text-gray-400">
+          {item.calculatedQuantity.toFixed(3)}
+          {hasDeductions && <div className="text-[10px] text-blue-600 font-black whitespace-nowrap">{t('net')}: {getNetQuantity(item, activeProject.items).toFixed(3)}</div>}
+        </td>
+        <td className="p-2 w-32"><CellInput type="number" value={item.totalQuantity} onChange={(v: number) => updateItem(item.id, { totalQuantity: v })} className="text-right font-black text-lg" /></td>
+        <td className="p-4 text-center">
+          <span className={`px-2 py-1 rounded-full font-bold uppercase text-[10px] ${hasError ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+            {hasError ? t('mismatch') : t('valid')}
+          </span>
+        </td>
+        <td className="p-4 text-right whitespace-nowrap">
+          {!item.isDeduction && <button onClick={() => addDeduction(item)} title={t('addDeduction')} className="text-gray-300 hover:text-blue-500 mr-2"><MinusCircle size={16} /></button>}
+          <button onClick={() => deleteItem(item.id)} className="text-gray-300 hover:text-red-500"><Trash2 size={16} /></button>
+        </td>
+      </tr>
+    );
+  };
+
+  const renderLocationNodes = (nodes: LocationNode[]): React.ReactNode[] => nodes.flatMap(node => {
+    const collapsed = collapsedNodes.has(node.key);
+    return [
+      <tr key={`node-${node.key}`} className={`cursor-pointer ${['bg-gray-100', 'bg-gray-50', 'bg-white'][node.level]}`} onClick={() => toggleNode(node.key)}>
+        <td colSpan={16} className="p-3" style={{ paddingLeft: `${1 + node.level * 1.5}rem` }}>
+          <div className="flex items-center gap-2">
+            {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+            <span className={`font-black ${node.level === 0 ? 'text-sm' : 'text-xs'} ${node.label ? 'text-gray-700' : 'text-gray-400 italic'}`}>{formatNodeLabel(node, t)}</span>
+            <span className="flex flex-wrap gap-1 ml-2">
+              {Object.entries(node.subtotals).map(([unit, qty]) => (
+                <span key={unit} className="px-2 py-0.5 bg-white border rounded-full text-[10px] font-bold text-blue-700">{qty.toFixed(3)} {unit}</span>
+              ))}
+            </span>
+          </div>
+        </td>
+      </tr>,
+      ...(collapsed ? [] : [...node.items.map(renderItemRow), ...renderLocationNodes(node.children)])
+    ];
+  });
+
+  // Aynı başlıklı sayfalar için yapı analizi bir kez yapılır ve eşleşme paylaşılır.
+  const analyzeSelectedSheets = async () => {
+    if (!importPreview) return;
+    setIsExcelLoading(true);
+    const startTime = performance.now();
+    try {
+      const selectedSheets = importPreview.sheets.filter(s => importPreview.selected.includes(s.name));
+      const groups: ImportMappingGroup[] = [];
+      for (const group of groupSheetsBySignature(selectedSheets)) {
+        const rows = selectedSheets.find(s => s.name === group.sheetNames[0])!.rows;
+        const resolved = await resolveMapping(rows, mappingTemplates, sample => analyzeExcelStructure(sample, aiProvider, language));
+        groups.push({ ...group, ...resolved });
+      }
+      setAnalysisDuration(Number(((performance.now() - startTime) / 1000).toFixed(2)));
+      setImportPreview({ ...importPreview, groups, activeGroup: 0 });
+    } catch (err) {
+      console.error(err);
+      alert("Excel analysis error. Check console.");
+    } finally {
+      setIsExcelLoading(false);
+    }
+  };
+
+  const saveMappingTemplate = () => {
+    if (!activeMappingGroup) return;
+    const name = prompt(t('templateName'), activeMappingGroup.templateName || activeMappingGroup.sheetNames[0]);
+    if (!name) return;
+    onSaveTemplate({
+      id: Date.now().toString(),
+      name,
+      fingerprint: activeMappingGroup.signature,
+      mapping: activeMappingGroup.mapping,
+      startRow: activeMappingGroup.startRow,
+      createdAt: new Date().toISOString()
+    });
+    setImportPreview({
+      ...importPreview!,
+      groups: importPreview!.groups!.map((g, i) => i === importPreview!.activeGroup ? { ...g, templateName: name } : g)
+    });
+  };
+
+  const closeImport = () => {
+    setImportPreview(null);
+    setImportDiff(null);
+  };
+
+  // Projede kalem varsa önce farklar gösterilir; boş projede satırlar doğrudan aktarılır.
+  const confirmImport = () => {
+    if (activeProject.items.length === 0) {
+      setItems(parsedItemsPreview, `${t('historyImport')}: ${parsedItemsPreview.length} ${t('historyRows')}`);
+      closeImport();
+      return;
+    }
+    const entries = diffImport(activeProject.items, parsedItemsPreview);
+    setImportDiff({ entries, accepted: new Set(entries.filter(e => e.kind !== 'UNCHANGED').map(e => e.id)) });
+  };
+
+  const applyDiff = () => {
+    if (!importDiff) return;
+    const summary = summarizeDiff(importDiff.entries.filter(e => importDiff.accepted.has(e.id)));
+    setItems(
+      applyImportDiff(activeProject.items, importDiff.entries, importDiff.accepted),
+      `${t('historyMerge')}: +${summary.ADDED} ~${summary.CHANGED} -${summary.REMOVED}`
+    );
+    closeImport();
+  };
+
+  const toggleDiffEntry = (id: string) => {
+    if (!importDiff) return;
+    const accepted = new Set(importDiff.accepted);
+    if (accepted.has(id)) accepted.delete(id); else accepted.add(id);
+    setImportDiff({ ...importDiff, accepted });
+  };
+
+  const toggleImportSheet = (name: string) => {
+    if (!importPreview) return;
+    const selected = importPreview.selected.includes(name)
+      ? importPreview.selected.filter(n => n !== name)
+      : importPreview.sheets.map(s => s.name).filter(n => n === name || importPreview.selected.includes(n));
+    setImportPreview({ ...importPreview, selected });
+  };
+
+  const activeMappingGroup = importPreview?.groups?.[importPreview.activeGroup];
+  const activeHeaders = activeMappingGroup
+    ? importPreview!.sheets.find(s => s.name === activeMappingGroup.sheetNames[0])!.rows[activeMappingGroup.startRow - 1] || []
+    : [];
+
   const ColumnMappingRow = ({ fieldKey, label, currentIdx, excelHeaders }: any) => (
     <div className="flex items-center justify-between gap-4 p-3 bg-white border rounded-xl shadow-sm">
       <div className="flex items-center gap-2">
         <div className="w-1.5 h-6 bg-blue-500 rounded-full"></div>
         <span className="text-sm font-bold text-gray-700">{label}</span>
+        {activeMappingGroup?.fieldSources[fieldKey] && <MappingSourceBadge source={activeMappingGroup.fieldSources[fieldKey]} t={t} />}
       </div>
       <select 
         className="text-xs font-mono bg-gray-50 border-none rounded-lg p-2 focus:ring-2 focus:ring-blue-500 outline-none min-w-[120px]"
         value={currentIdx}
         onChange={(e) => {
           const val = parseInt(e.target.value);
-          if (importPreview) {
+          if (importPreview?.groups) {
             setImportPreview({
               ...importPreview,
-              mapping: { ...importPreview.mapping, [fieldKey]: val }
+              groups: importPreview.groups.map((g, i) => i === importPreview.activeGroup
+                ? { ...g, mapping: { ...g.mapping, [fieldKey]: val }, fieldSources: { ...g.fieldSources, [fieldKey]: 'MANUAL' } }
+                : g)
             });
           }
         }}
@@ -340,6 +1008,28 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
       <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div><div className="text-xs font-bold text-blue-600 uppercase mb-1">{t('activeProject')}</div><SectionHeader title={activeProject.name} onInfo={onInfo} /></div>
         <div className="flex flex-wrap gap-2">
+          <div className="relative flex bg-white border rounded-xl overflow-visible">
+            <button onClick={() => onUndo()} disabled={!history?.past.length} title={`${t('undo')} (Ctrl+Z)`} className="px-3 py-2 hover:bg-gray-50 rounded-l-xl disabled:opacity-30"><Undo2 size={18} /></button>
+            <button onClick={() => onRedo()} disabled={!history?.future.length} title={`${t('redo')} (Ctrl+Shift+Z)`} className="px-3 py-2 hover:bg-gray-50 disabled:opacity-30"><Redo2 size={18} /></button>
+            <button onClick={() => setShowHistory(!showHistory)} disabled={!history?.past.length && !history?.future.length} title={t('changeHistory')} className="px-3 py-2 hover:bg-gray-50 rounded-r-xl border-l disabled:opacity-30"><History size={18} /></button>
+            {showHistory && history && (
+              <div className="absolute top-full left-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white border rounded-2xl shadow-2xl z-50 p-2 text-xs">
+                {history.future.slice().reverse().map((entry: HistoryEntry, i: number) => (
+                  <button key={`f-${i}`} onClick={() => { onRedo(history.future.length - i); setShowHistory(false); }} className="w-full text-left px-3 py-2 rounded-lg text-gray-300 hover:bg-gray-50 flex justify-between gap-2">
+                    <span className="truncate">{entry.label}</span><span className="shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                  </button>
+                ))}
+                <div className="px-3 py-2 rounded-lg bg-blue-50 text-blue-700 font-bold">{t('currentState')}</div>
+                {history.past.slice().reverse().map((entry: HistoryEntry, i: number) => (
+                  <button key={`p-${i}`} onClick={() => { onUndo(i + 1); setShowHistory(false); }} className="w-full text-left px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-50 flex justify-between gap-2">
+                    <span className="truncate">{entry.label}</span><span className="shrink-0 text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button onClick={() => setOnlyWithFindings(!onlyWithFindings)} className={`px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 ${onlyWithFindings ? 'bg-gray-900 text-white' : 'bg-white border hover:bg-gray-50'}`}><Filter size={18} /> {t('onlyWithFindings')} ({findingItemIds.size})</button>
+          <button onClick={() => setGroupByLocation(!groupByLocation)} className={`px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 ${groupByLocation ? 'bg-gray-900 text-white' : 'bg-white border hover:bg-gray-50'}`}><MapPin size={18} /> {t('groupByLocation')}</button>
           <button onClick={() => setShowAddForm(!showAddForm)} className="px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-blue-100"><Plus size={18} /> {t('addRow')}</button>
           <button 
             onClick={() => fileInputRef.current?.click()} 
@@ -364,7 +1054,11 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
                 <div>
                   <h3 className="text-2xl font-black">{t('preview')}</h3>
                   <div className="flex items-center gap-2 mt-1">
-                    <p className="text-blue-100 text-sm font-medium">{parsedItemsPreview.length} {t('itemsCount')} tespit edildi.</p>
+                    <p className="text-blue-100 text-sm font-medium">
+                      {importPreview.groups
+                        ? `${parsedItemsPreview.length} ${t('itemsCount')} tespit edildi.`
+                        : `${importPreview.sheets.length} ${t('sheetsFound')}`}
+                    </p>
                     {analysisDuration && (
                       <span className="flex items-center gap-1 bg-white/20 px-2 py-0.5 rounded-full text-[10px] font-bold">
                         <Zap size={10} fill="currentColor"/> {analysisDuration} saniye
@@ -373,26 +1067,70 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
                   </div>
                 </div>
               </div>
-              <button onClick={() => setImportPreview(null)} className="p-2 hover:bg-white/10 rounded-full transition-colors"><X size={28}/></button>
+              <button onClick={closeImport} className="p-2 hover:bg-white/10 rounded-full transition-colors"><X size={28}/></button>
             </div>
 
+            {importDiff ? (
+              <ImportDiffTable diff={importDiff} onToggle={toggleDiffEntry} onSetAccepted={(accepted: Set<string>) => setImportDiff({ ...importDiff, accepted })} t={t} />
+            ) : !importPreview.groups || !activeMappingGroup ? (
+              <div className="flex-1 overflow-y-auto p-6 space-y-2">
+                <div className="flex items-center gap-2 mb-4">
+                  <Layers size={18} className="text-blue-600" />
+                  <h4 className="font-black text-gray-800 uppercase tracking-tight text-sm">{t('selectSheets')}</h4>
+                </div>
+                {importPreview.sheets.map(sheet => (
+                  <label key={sheet.name} className={`flex items-center gap-4 p-4 border rounded-2xl cursor-pointer ${importPreview.selected.includes(sheet.name) ? 'border-blue-300 bg-blue-50/50' : 'hover:bg-gray-50'} ${sheet.rowCount === 0 ? 'opacity-40' : ''}`}>
+                    <input type="checkbox" checked={importPreview.selected.includes(sheet.name)} disabled={sheet.rowCount === 0} onChange={() => toggleImportSheet(sheet.name)} />
+                    <span className="font-bold flex-1">{sheet.name}</span>
+                    <span className="text-xs text-gray-400 font-mono truncate max-w-xs" title={sheet.signature}>{sheet.signature.split('|').filter(Boolean).slice(0, 5).join(' · ')}</span>
+                    <span className="text-xs font-bold text-gray-500 whitespace-nowrap">{sheet.rowCount} {t('itemsCount').toLowerCase()}</span>
+                  </label>
+                ))}
+              </div>
+            ) : (
             <div className="flex-1 overflow-hidden flex flex-col lg:flex-row">
               <div className="lg:w-80 border-r bg-gray-50/50 p-6 overflow-y-auto space-y-4">
+                {importPreview.groups.length > 1 && (
+                  <div className="space-y-1">
+                    {importPreview.groups.map((g, i) => (
+                      <button key={g.signature} onClick={() => setImportPreview({ ...importPreview, activeGroup: i })} className={`w-full text-left px-3 py-2 rounded-xl text-xs font-bold ${i === importPreview.activeGroup ? 'bg-blue-600 text-white' : 'bg-white border text-gray-600 hover:bg-gray-50'}`}>
+                        {g.sheetNames.join(', ')}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {importPreview.groups.length === 1 && activeMappingGroup.sheetNames.length > 1 && (
+                  <p className="text-xs text-gray-500">{t('sharedMapping')}: {activeMappingGroup.sheetNames.join(', ')}</p>
+                )}
+                <label className="flex items-center gap-2 text-xs font-bold text-gray-600">
+                  <input type="checkbox" checked={importPreview.sheetAsLocation} onChange={e => setImportPreview({ ...importPreview, sheetAsLocation: e.target.checked })} /> {t('sheetAsLocation')}
+                </label>
+                <div className="p-3 bg-white border rounded-xl text-xs space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-bold text-gray-500">{t('mappingSource')}</span>
+                    <MappingSourceBadge source={activeMappingGroup.source} t={t} />
+                  </div>
+                  {activeMappingGroup.templateName && <p className="text-gray-500">{t('template')}: <b>{activeMappingGroup.templateName}</b></p>}
+                  {activeMappingGroup.confidence !== undefined && <p className="text-gray-500">{t('localConfidence')}: <b>%{Math.round(activeMappingGroup.confidence * 100)}</b></p>}
+                  <button onClick={saveMappingTemplate} disabled={activeMappingGroup.signature.startsWith('#')} className="w-full py-2 bg-blue-50 text-blue-600 rounded-lg font-bold hover:bg-blue-100 disabled:opacity-40 flex items-center justify-center gap-1"><Save size={14} /> {t('saveTemplate')}</button>
+                </div>
                 <div className="flex items-center gap-2 mb-2">
                   <Calculator size={18} className="text-blue-600" />
                   <h4 className="font-black text-gray-800 uppercase tracking-tight text-sm">Kolon Eşleşmeleri</h4>
                 </div>
                 <div className="space-y-3">
-                  <ColumnMappingRow fieldKey="pozNumber" label="Poz No" currentIdx={importPreview.mapping.pozNumber} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="description" label="Açıklama" currentIdx={importPreview.mapping.description} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="totalQuantity" label="Manuel Miktar" currentIdx={importPreview.mapping.totalQuantity} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="unit" label="Birim" currentIdx={importPreview.mapping.unit} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="x" label="Boyut X" currentIdx={importPreview.mapping.x} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="y" label="Boyut Y" currentIdx={importPreview.mapping.y} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="z" label="Boyut Z" currentIdx={importPreview.mapping.z} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="multiplier" label="Benzer/Çarpan" currentIdx={importPreview.mapping.multiplier} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="unitWeight" label="Birim Ağırlık" currentIdx={importPreview.mapping.unitWeight} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
-                  <ColumnMappingRow fieldKey="count" label="Adet" currentIdx={importPreview.mapping.count} excelHeaders={importPreview.rawRows[importPreview.startRow - 1] || []} />
+                  <ColumnMappingRow fieldKey="pozNumber" label="Poz No" currentIdx={activeMappingGroup.mapping.pozNumber} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="description" label="Açıklama" currentIdx={activeMappingGroup.mapping.description} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="totalQuantity" label="Manuel Miktar" currentIdx={activeMappingGroup.mapping.totalQuantity} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="unit" label="Birim" currentIdx={activeMappingGroup.mapping.unit} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="x" label="Boyut X" currentIdx={activeMappingGroup.mapping.x} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="y" label="Boyut Y" currentIdx={activeMappingGroup.mapping.y} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="z" label="Boyut Z" currentIdx={activeMappingGroup.mapping.z} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="multiplier" label="Benzer/Çarpan" currentIdx={activeMappingGroup.mapping.multiplier} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="unitWeight" label="Birim Ağırlık" currentIdx={activeMappingGroup.mapping.unitWeight} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="count" label="Adet" currentIdx={activeMappingGroup.mapping.count} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="location" label="Konum (Blok / Kat / Eleman)" currentIdx={activeMappingGroup.mapping.location ?? -1} excelHeaders={activeHeaders} />
+                  <ColumnMappingRow fieldKey="key" label={t('keyColumn')} currentIdx={activeMappingGroup.mapping.key ?? -1} excelHeaders={activeHeaders} />
                 </div>
               </div>
 
@@ -400,15 +1138,47 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
                 <div className="p-6">
                   <div className="flex items-center justify-between mb-6">
                     <h4 className="font-black text-gray-800 text-lg">Aktarım Önizlemesi</h4>
-                    <div className="flex items-center gap-2 bg-green-50 text-green-700 px-4 py-2 rounded-xl text-sm font-bold border border-green-100">
-                      <ShieldCheck size={18} /> AI Analizi Aktif
-                    </div>
+                    {importPreview.groups.some(g => g.source === 'AI') && (
+                      <div className="flex items-center gap-2 bg-green-50 text-green-700 px-4 py-2 rounded-xl text-sm font-bold border border-green-100">
+                        <ShieldCheck size={18} /> AI Analizi Aktif
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {parsedImport.map(p => (
+                      <span key={p.sheet} className="text-[10px] font-bold bg-gray-100 text-gray-500 px-2 py-1 rounded-lg">
+                        {p.sheet}: {Object.entries(p.numberFormats).map(([field, format]) => `${fieldLabel(field, t)} ${format}`).join(' · ') || '—'}
+                      </span>
+                    ))}
                   </div>
+
+                  {importIssues.length > 0 && (
+                    <div className="mb-6 border border-amber-200 bg-amber-50 rounded-2xl text-xs">
+                      <button onClick={() => setShowIssues(!showIssues)} className="w-full p-4 flex items-center gap-2 font-bold text-amber-700">
+                        <AlertTriangle size={16} /> {importIssues.length} {t('importIssues')}
+                        <ChevronDown size={16} className={`ml-auto transition-transform ${showIssues ? 'rotate-180' : ''}`} />
+                      </button>
+                      {showIssues && (
+                        <div className="max-h-60 overflow-y-auto border-t border-amber-200 divide-y divide-amber-100">
+                          {importIssues.map((issue, i) => (
+                            <div key={i} className="px-4 py-2 flex gap-3">
+                              <span className="text-amber-500 font-mono whitespace-nowrap">{issue.sheet}:{issue.row}</span>
+                              <span className="font-bold text-amber-800 whitespace-nowrap">{fieldLabel(issue.field, t)}</span>
+                              <span className="font-mono text-gray-500 truncate max-w-[12rem]">"{String(issue.value ?? '')}"</span>
+                              <span className="text-gray-600">{issue.message}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   
                   <div className="border rounded-2xl overflow-hidden shadow-sm">
                     <table className="w-full text-xs text-left">
                       <thead className="bg-gray-50 border-b">
                         <tr>
+                          <th className="p-4">{t('sheet')}</th>
                           <th className="p-4">Poz No</th>
                           <th className="p-4">Tanım</th>
                           <th className="p-4 text-right bg-blue-50/50">Manuel Miktar</th>
@@ -422,6 +1192,7 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
                           const isError = diff > 0.01;
                           return (
                             <tr key={i} className="hover:bg-gray-50 transition-colors">
+                              <td className="p-4 text-gray-400 font-bold whitespace-nowrap">{it.sourceSheet}</td>
                               <td className="p-4 font-bold text-blue-600">{it.pozNumber || '-'}</td>
                               <td className="p-4 text-gray-600 font-medium">{it.description || '-'}</td>
                               <td className="p-4 text-right font-black text-blue-800 bg-blue-50/20">{it.totalQuantity.toFixed(3)}</td>
@@ -446,23 +1217,39 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
                 </div>
               </div>
             </div>
+            )}
 
             <div className="p-6 bg-gray-50 border-t flex gap-4">
               <button 
-                onClick={() => setImportPreview(null)} 
+                onClick={() => importDiff ? setImportDiff(null) : closeImport()} 
                 className="flex-1 py-4 bg-white border border-gray-200 rounded-2xl font-bold text-gray-600 hover:bg-gray-100 transition-all shadow-sm"
               >
-                İşlemi İptal Et
+                {importDiff ? t('back') : 'İşlemi İptal Et'}
+              </button>
+              {importDiff ? (
+              <button
+                onClick={applyDiff}
+                disabled={importDiff.accepted.size === 0}
+                className="flex-[2] py-4 bg-blue-600 text-white font-black rounded-2xl hover:bg-blue-700 shadow-xl shadow-blue-500/20 transition-all disabled:opacity-50"
+              >
+                {t('applyChanges')} ({importDiff.accepted.size})
+              </button>
+              ) : !importPreview.groups ? (
+              <button
+                onClick={analyzeSelectedSheets}
+                disabled={importPreview.selected.length === 0 || isExcelLoading}
+                className="flex-[2] py-4 bg-blue-600 text-white font-black rounded-2xl hover:bg-blue-700 shadow-xl shadow-blue-500/20 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isExcelLoading ? <><Loader2 className="animate-spin" size={18} /> Analiz Ediliyor...</> : `${t('analyzeSheets')} (${importPreview.selected.length})`}
               </button>
+              ) : (
               <button 
-                onClick={() => { 
-                  setItems([...parsedItemsPreview, ...activeProject.items]); 
-                  setImportPreview(null); 
-                }} 
+                onClick={confirmImport}
                 className="flex-[2] py-4 bg-blue-600 text-white font-black rounded-2xl hover:bg-blue-700 shadow-xl shadow-blue-500/20 transition-all transform active:scale-[0.98]"
               >
-                {t('importConfirm')}
+                {activeProject.items.length > 0 ? t('reviewChanges') : t('importConfirm')}
               </button>
+              )}
             </div>
           </div>
         </div>
@@ -470,17 +1257,32 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
 
       {showAddForm && (
         <form onSubmit={addItem} className="bg-white p-6 rounded-3xl border-2 border-blue-100 shadow-xl space-y-6 animate-in slide-in-from-top-4">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="md:col-span-1"><label className="text-[10px] font-bold text-gray-400 uppercase">Poz No</label><input required placeholder="15.150.1001" className="w-full px-3 py-2 bg-gray-50 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none font-bold" value={newRow.pozNumber} onChange={e => setNewRow({...newRow, pozNumber: e.target.value})} /></div>
             <div className="md:col-span-2"><label className="text-[10px] font-bold text-gray-400 uppercase">Açıklama</label><input required placeholder="C25/30 Beton" className="w-full px-3 py-2 bg-gray-50 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none" value={newRow.description} onChange={e => setNewRow({...newRow, description: e.target.value})} /></div>
-            <div><label className="text-[10px] font-bold text-gray-400 uppercase">Birim</label><select className="w-full px-3 py-2 bg-gray-50 rounded-xl outline-none" value={newRow.unit} onChange={e => setNewRow({...newRow, unit: e.target.value})}><option value="m3">m³</option><option value="m2">m²</option><option value="kg">kg</option><option value="adet">Adet</option></select></div>
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">Birim</label><select className="w-full px-3 py-2 bg-gray-50 rounded-xl outline-none" value={newRow.unit} onChange={e => setNewRow({...newRow, unit: e.target.value})}>{UNIT_OPTIONS.map(u => <option key={u} value={u}>{u}</option>)}</select></div>
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('category')}</label><select className="w-full px-3 py-2 bg-gray-50 rounded-xl outline-none" value={newRow.category} onChange={e => setNewRow({...newRow, category: e.target.value as MetrajCategory, rebar: undefined})}>{CATEGORY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}</select></div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('block')}</label><input placeholder="A Blok" className="w-full px-3 py-2 bg-gray-50 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none" value={newRow.location?.block || ''} onChange={e => setNewRow({...newRow, location: { ...newRow.location, block: e.target.value }})} /></div>
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('floor')}</label><input placeholder="3. Kat" className="w-full px-3 py-2 bg-gray-50 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none" value={newRow.location?.floor || ''} onChange={e => setNewRow({...newRow, location: { ...newRow.location, floor: e.target.value }})} /></div>
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('element')}</label><select className="w-full px-3 py-2 bg-gray-50 rounded-xl outline-none" value={newRow.location?.element || ''} onChange={e => setNewRow({...newRow, location: { ...newRow.location, element: (e.target.value || undefined) as StructuralElement }})}><option value="">—</option>{ELEMENT_TYPES.map(el => <option key={el} value={el}>{t(`element${el}`)}</option>)}</select></div>
           </div>
+          {newRow.category === 'Reinforcement' && (
+            <label className="flex items-center gap-2 text-sm font-bold text-gray-600">
+              <input type="checkbox" checked={!!newRow.rebar} onChange={e => setNewRow({...newRow, ...toggleRebar(newRow, e.target.checked)})} /> {t('rebarMode')}
+            </label>
+          )}
           <div className="grid grid-cols-3 md:grid-cols-6 gap-4 p-4 bg-gray-50 rounded-2xl">
-            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('dimX')}</label><input type="number" step="any" className="w-full bg-transparent font-bold outline-none" value={newRow.x} onChange={e => setNewRow({...newRow, x: parseFloat(e.target.value) || 0})} /></div>
-            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('dimY')}</label><input type="number" step="any" className="w-full bg-transparent font-bold outline-none" value={newRow.y} onChange={e => setNewRow({...newRow, y: parseFloat(e.target.value) || 0})} /></div>
-            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('dimZ')}</label><input type="number" step="any" className="w-full bg-transparent font-bold outline-none" value={newRow.z} onChange={e => setNewRow({...newRow, z: parseFloat(e.target.value) || 0})} /></div>
-            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('multiplier')}</label><input type="number" step="any" className="w-full bg-transparent font-bold outline-none" value={newRow.multiplier} onChange={e => setNewRow({...newRow, multiplier: parseFloat(e.target.value) || 1})} /></div>
-            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('unitWeight')}</label><input type="number" step="any" className="w-full bg-transparent font-bold outline-none" value={newRow.unitWeight} onChange={e => setNewRow({...newRow, unitWeight: parseFloat(e.target.value) || 0})} /></div>
+            {newRow.rebar ? (
+              <div className="col-span-3 md:col-span-3"><RebarEditor spec={newRow.rebar} onChange={(rebar: RebarSpec) => setNewRow({...newRow, rebar})} t={t} /></div>
+            ) : (<>
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('dimX')}</label><FormulaInput className="w-full bg-transparent font-bold outline-none" value={newRow.x} formula={newRow.formulas?.x} onChange={(v: number, formula?: string) => setNewRow({...newRow, ...withDimension(newRow, 'x', v, formula)})} /></div>
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('dimY')}</label><FormulaInput className="w-full bg-transparent font-bold outline-none" value={newRow.y} formula={newRow.formulas?.y} onChange={(v: number, formula?: string) => setNewRow({...newRow, ...withDimension(newRow, 'y', v, formula)})} /></div>
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('dimZ')}</label><FormulaInput className="w-full bg-transparent font-bold outline-none" value={newRow.z} formula={newRow.formulas?.z} onChange={(v: number, formula?: string) => setNewRow({...newRow, ...withDimension(newRow, 'z', v, formula)})} /></div>
+            </>)}
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('multiplier')}</label><FormulaInput className="w-full bg-transparent font-bold outline-none" value={newRow.multiplier} formula={newRow.formulas?.multiplier} onChange={(v: number, formula?: string) => setNewRow({...newRow, ...withDimension(newRow, 'multiplier', v || 1, formula)})} /></div>
+            {!newRow.rebar && <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('unitWeight')}</label><input type="number" step="any" className="w-full bg-transparent font-bold outline-none" value={newRow.unitWeight} onChange={e => setNewRow({...newRow, unitWeight: parseFloat(e.target.value) || 0})} /></div>}
             <div className="bg-blue-600 text-white p-2 rounded-xl text-center flex flex-col justify-center">
               <span className="text-[8px] font-bold opacity-70 uppercase">Hesaplanan</span>
               <span className="text-sm font-black">{calculatedVal.toFixed(3)}</span>
@@ -493,38 +1295,52 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
         </form>
       )}
 
+      {selectedIds.size > 0 && (
+        <div className="bg-gray-900 text-white p-4 rounded-2xl flex flex-wrap items-center gap-3 shadow-xl sticky top-20 lg:top-4 z-40 animate-in slide-in-from-top-4">
+          <span className="text-sm font-black">{selectedIds.size} {t('rowsSelected')}</span>
+          <select className="text-xs bg-white/10 rounded-lg px-3 py-2 outline-none" value={bulkEdit.category} onChange={e => setBulkEdit({ ...bulkEdit, category: e.target.value })}>
+            <option value="" className="text-gray-900">{t('category')}: —</option>
+            {CATEGORY_OPTIONS.map(c => <option key={c} value={c} className="text-gray-900">{c}</option>)}
+          </select>
+          <select className="text-xs bg-white/10 rounded-lg px-3 py-2 outline-none" value={bulkEdit.unit} onChange={e => setBulkEdit({ ...bulkEdit, unit: e.target.value })}>
+            <option value="" className="text-gray-900">{t('unit')}: —</option>
+            {UNIT_OPTIONS.map(u => <option key={u} value={u} className="text-gray-900">{u}</option>)}
+          </select>
+          <input type="number" step="any" placeholder={t('multiplier')} className="w-24 text-xs bg-white/10 rounded-lg px-3 py-2 outline-none placeholder:text-white/50" value={bulkEdit.multiplier} onChange={e => setBulkEdit({ ...bulkEdit, multiplier: e.target.value })} />
+          <input placeholder={t('block')} className="w-24 text-xs bg-white/10 rounded-lg px-3 py-2 outline-none placeholder:text-white/50" value={bulkEdit.block} onChange={e => setBulkEdit({ ...bulkEdit, block: e.target.value })} />
+          <input placeholder={t('floor')} className="w-24 text-xs bg-white/10 rounded-lg px-3 py-2 outline-none placeholder:text-white/50" value={bulkEdit.floor} onChange={e => setBulkEdit({ ...bulkEdit, floor: e.target.value })} />
+          <select className="text-xs bg-white/10 rounded-lg px-3 py-2 outline-none" value={bulkEdit.element} onChange={e => setBulkEdit({ ...bulkEdit, element: e.target.value })}>
+            <option value="" className="text-gray-900">{t('element')}: —</option>
+            {ELEMENT_TYPES.map(el => <option key={el} value={el} className="text-gray-900">{t(`element${el}`)}</option>)}
+          </select>
+          <button onClick={applyBulkEdit} className="px-4 py-2 bg-blue-600 rounded-lg text-xs font-bold hover:bg-blue-700">{t('applyBulkEdit')}</button>
+          <button onClick={() => linkSelected(true)} className="px-4 py-2 bg-white/10 rounded-lg text-xs font-bold hover:bg-white/20 flex items-center gap-1"><Link2 size={14} /> {t('linkItems')}</button>
+          <button onClick={() => linkSelected(false)} className="px-4 py-2 bg-white/10 rounded-lg text-xs font-bold hover:bg-white/20 flex items-center gap-1"><Unlink size={14} /> {t('unlinkItems')}</button>
+          <button onClick={deleteSelected} className="px-4 py-2 bg-red-600 rounded-lg text-xs font-bold hover:bg-red-700 flex items-center gap-1"><Trash2 size={14} /> {t('deleteSelected')}</button>
+          <button onClick={() => setSelectedIds(new Set())} className="ml-auto p-2 hover:bg-white/10 rounded-lg"><X size={16} /></button>
+        </div>
+      )}
+
+      {highlightedIds.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-2xl flex items-center gap-3 text-sm font-bold">
+          <Crosshair size={16} /> {highlightedIds.length} {t('highlightedItems')}
+          <button onClick={onClearHighlight} className="ml-auto text-xs text-amber-700 hover:underline">{t('clearHighlight')}</button>
+        </div>
+      )}
+
       <div className="bg-white border rounded-3xl overflow-hidden shadow-sm overflow-x-auto">
-        <table className="w-full text-xs text-left min-w-[1200px]">
+        <table className="w-full text-xs text-left min-w-[1560px]">
           <thead className="bg-gray-50 font-bold uppercase text-gray-400 border-b">
             <tr>
-              <th className="p-4">Poz No / Açıklama</th><th className="p-4">Birim</th>
-              <th className="p-4 text-center">X (m)</th><th className="p-4 text-center">Y (m)</th><th className="p-4 text-center">Z (m)</th>
+              <th className="p-4 w-8"><input type="checkbox" checked={allSelected} onChange={() => setSelectedIds(allSelected ? new Set() : new Set(activeProject.items.map((it: MetrajItem) => it.id)))} /></th>
+              <th className="p-4">Poz No / Açıklama</th><th className="p-4">Kategori</th><th className="p-4">{t('location')}</th><th className="p-4">Birim</th>
+              <th className="p-4 text-center">X (m)</th><th className="p-4 text-center">Y (m)</th><th className="p-4 text-center">Z (m)</th><th className="p-4 text-center">Benzer</th>
               <th className="p-4 text-center">Alan (m²)</th><th className="p-4 text-center">Hacim (m³)</th><th className="p-4 text-center">Birim Ağırlık</th>
               <th className="p-4 text-right">Hesaplanan</th><th className="p-4 text-right">Manuel</th><th className="p-4 text-center">Durum</th><th className="p-4"></th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-100">
-            {activeProject.items.map(item => {
-              const hasError = Math.abs(item.calculatedQuantity - item.totalQuantity) > 0.01;
-              return (
-                <tr key={item.id} className="hover:bg-gray-50 transition-colors">
-                  <td className="p-4"><div className="font-bold text-blue-600">{item.pozNumber}</div><div className="text-gray-500 truncate max-w-xs">{item.description}</div></td>
-                  <td className="p-4 font-medium">{item.unit}</td>
-                  <td className="p-4 text-center">{item.x || '-'}</td><td className="p-4 text-center">{item.y || '-'}</td><td className="p-4 text-center">{item.z || '-'}</td>
-                  <td className="p-4 text-center text-gray-400">{item.area ? item.area.toFixed(2) : '-'}</td>
-                  <td className="p-4 text-center text-gray-400">{item.volume ? item.volume.toFixed(2) : '-'}</td>
-                  <td className="p-4 text-center">{item.unitWeight || '-'}</td>
-                  <td className="p-4 text-right font-bold text-gray-400">{item.calculatedQuantity.toFixed(3)}</td>
-                  <td className="p-4 text-right font-black text-lg">{item.totalQuantity.toFixed(3)}</td>
-                  <td className="p-4 text-center">
-                    <span className={`px-2 py-1 rounded-full font-bold uppercase text-[10px] ${hasError ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
-                      {hasError ? t('mismatch') : t('valid')}
-                    </span>
-                  </td>
-                  <td className="p-4 text-right"><button onClick={() => setItems(activeProject.items.filter(it => it.id !== item.id))} className="text-gray-300 hover:text-red-500"><Trash2 size={16} /></button></td>
-                </tr>
-              );
-            })}
+            {groupByLocation ? renderLocationNodes(locationTree) : visibleItems.map(renderItemRow)}
           </tbody>
         </table>
       </div>
@@ -532,6 +1348,103 @@ const MetrajInputView = ({ activeProject, setItems, onAudit, onInfo, language, t
   );
 };
 
+// Donatı çizelgesi modunu açar/kapatır; açılırken birim ağırlık birimine (kg) çekilir.
+const toggleRebar = (item: Partial<MetrajItem>, enabled: boolean): Partial<MetrajItem> => enabled
+  ? { rebar: { ...DEFAULT_REBAR }, unit: item.unit === 'ton' ? 'ton' : 'kg' }
+  : { rebar: undefined };
+
+const RebarEditor = ({ spec, onChange, t, compact = false }: { spec: RebarSpec, onChange: (spec: RebarSpec) => void, t: any, compact?: boolean }) => {
+  const fieldClass = compact
+    ? 'bg-transparent px-2 py-1 rounded-lg outline-none hover:bg-gray-100 focus:bg-white focus:ring-2 focus:ring-blue-500'
+    : 'w-full bg-white px-2 py-1 rounded-lg font-bold outline-none focus:ring-2 focus:ring-blue-500';
+  const setSegment = (idx: number, val: number) => {
+    const segments = [...spec.segments];
+    segments[idx] = val;
+    onChange({ ...spec, segments });
+  };
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <div>{!compact && <label className="block text-[10px] font-bold text-gray-400 uppercase">{t('rebarDiameter')}</label>}
+        <select className={fieldClass} value={spec.diameter} onChange={e => onChange({ ...spec, diameter: parseInt(e.target.value) })}>
+          {REBAR_DIAMETERS.map(d => <option key={d} value={d}>Ø{d}</option>)}
+        </select>
+      </div>
+      <div>{!compact && <label className="block text-[10px] font-bold text-gray-400 uppercase">{t('rebarShape')}</label>}
+        <select className={fieldClass} value={spec.shape} onChange={e => onChange({ ...spec, shape: e.target.value as RebarShape })}>
+          {REBAR_SHAPES.map(s => <option key={s} value={s}>{t(`shape${s}`)}</option>)}
+        </select>
+      </div>
+      {Array.from({ length: SHAPE_SEGMENTS[spec.shape] }).map((_, idx) => (
+        <div key={idx} className="w-16">{!compact && <label className="block text-[10px] font-bold text-gray-400 uppercase">{'abc'[idx]} (m)</label>}
+          <input type="number" step="any" placeholder={'abc'[idx]} className={`${fieldClass} w-full text-center`} value={spec.segments[idx] || 0} onChange={e => setSegment(idx, parseFloat(e.target.value) || 0)} />
+        </div>
+      ))}
+      <div className="w-16">{!compact && <label className="block text-[10px] font-bold text-gray-400 uppercase">{t('rebarCount')}</label>}
+        <input type="number" step="1" title={t('rebarCount')} className={`${fieldClass} w-full text-center`} value={spec.barCount} onChange={e => onChange({ ...spec, barCount: parseInt(e.target.value) || 0 })} />
+      </div>
+      <span className="px-1 py-1 text-[10px] font-bold text-gray-400 whitespace-nowrap">L={getBarLength(spec).toFixed(2)} m</span>
+    </div>
+  );
+};
+
+const formatNodeLabel = (node: LocationNode, t: any): string =>
+  !node.label ? t('unassigned') : node.level === 2 ? t(`element${node.label}`) : node.label;
+
+// Denetim ve raporları bir konum düğümüyle sınırlamak için seçici.
+const LocationScopeSelect = ({ items, value, onChange, t }: { items: MetrajItem[], value: string | null, onChange: (key: string | null) => void, t: any }) => {
+  const nodes = useMemo(() => flattenLocationTree(buildLocationTree(items)), [items]);
+  if (nodes.length <= 1 && !nodes[0]?.label) return null;
+  return (
+    <div className="flex items-center gap-2 bg-white border rounded-xl px-3 py-2">
+      <MapPin size={16} className="text-blue-600" />
+      <select value={value ?? '*'} onChange={e => onChange(e.target.value === '*' ? null : e.target.value)} className="bg-transparent outline-none text-sm font-bold">
+        <option value="*">{t('allLocations')}</option>
+        {nodes.map(node => <option key={node.key} value={node.key}>{'\u00A0\u00A0'.repeat(node.level)}{formatNodeLabel(node, t)}</option>)}
+      </select>
+    </div>
+  );
+};
+
+const CELL_INPUT_CLASS = 'w-full bg-transparent px-2 py-1 rounded-lg outline-none hover:bg-gray-100 focus:bg-white focus:ring-2 focus:ring-blue-500';
+
+// Tablo hücresi içinde satır düzenleme. Odak kaybını önlemek için bileşen dışında tanımlı.
+const CellInput = ({ value, onChange, type = 'text', className = '' }: any) => (
+  <input
+    type={type}
+    step={type === 'number' ? 'any' : undefined}
+    value={value ?? ''}
+    onChange={e => onChange(type === 'number' ? (parseFloat(e.target.value) || 0) : e.target.value)}
+    className={`${CELL_INPUT_CLASS} ${className}`}
+  />
+);
+
+// Boyut alanının değerini ve varsa özgün formülünü birlikte günceller.
+const withDimension = (item: Partial<MetrajItem>, field: DimensionField, value: number, formula?: string): Partial<MetrajItem> => {
+  const formulas = { ...item.formulas };
+  if (formula) formulas[field] = formula; else delete formulas[field];
+  return { [field]: value, formulas: Object.keys(formulas).length ? formulas : undefined };
+};
+
+// Boyut girişi: "3.50+2*0.25" gibi ifadeleri kabul eder. Odakta formül, odak dışında sonuç gösterilir.
+const FormulaInput = ({ value, formula, onChange, className = '' }: { value?: number, formula?: string, onChange: (value: number, formula?: string) => void, className?: string }) => {
+  const [text, setText] = useState<string | null>(null);
+  const invalid = text !== null && tryEvaluate(text) === null;
+  return (
+    <input
+      value={text ?? (value ?? 0)}
+      title={formula ? `${formula} = ${value}` : undefined}
+      onFocus={() => setText(formula ?? String(value ?? 0))}
+      onBlur={() => setText(null)}
+      onChange={e => {
+        setText(e.target.value);
+        const evaluated = tryEvaluate(e.target.value);
+        if (evaluated !== null) onChange(evaluated, isFormula(e.target.value) ? e.target.value.trim() : undefined);
+      }}
+      className={`${className} ${formula && text === null ? 'underline decoration-dotted decoration-blue-400' : ''} ${invalid ? 'ring-2 ring-red-400' : ''}`}
+    />
+  );
+};
+
 const OnboardingView = ({ onComplete, t }: any) => (
   <div className="max-w-2xl mx-auto mt-12 text-center">
     <div className="mb-8 flex justify-center"><div className="p-6 bg-blue-100 rounded-3xl text-blue-600"><ShieldCheck size={64} /></div></div>
@@ -541,7 +1454,7 @@ const OnboardingView = ({ onComplete, t }: any) => (
   </div>
 );
 
-const ProjectHubView = ({ projects, onCreate, onSelect, onDelete, onInfo, t, SectionHeader }: any) => {
+const ProjectHubView = ({ projects, onCreate, onSelect, onDelete, onExport, onInfo, t, SectionHeader }: any) => {
   const [showModal, setShowModal] = useState(false);
   const [name, setName] = useState('');
   return (
@@ -559,7 +1472,7 @@ const ProjectHubView = ({ projects, onCreate, onSelect, onDelete, onInfo, t, Sec
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {projects.length === 0 ? <div className="col-span-full py-20 text-center bg-white border-2 border-dashed rounded-3xl text-gray-400"><Layers size={48} className="mx-auto mb-4 opacity-20"/><p>{t('noProjectSelected')}</p></div> : projects.map((p: any) => (
           <div key={p.id} className="bg-white p-6 rounded-3xl border shadow-sm hover:shadow-md transition-all group relative">
-            <div className="flex justify-between mb-4"><div className="p-3 bg-blue-50 text-blue-600 rounded-2xl"><Briefcase size={24}/></div><button onClick={() => onDelete(p.id)} className="p-2 text-gray-300 hover:text-red-500"><Trash2 size={18}/></button></div>
+            <div className="flex justify-between mb-4"><div className="p-3 bg-blue-50 text-blue-600 rounded-2xl"><Briefcase size={24}/></div><div className="flex"><button onClick={() => onExport(p.id)} title={t('exportBackup')} className="p-2 text-gray-300 hover:text-blue-600"><Download size={18}/></button><button onClick={() => onDelete(p.id)} className="p-2 text-gray-300 hover:text-red-500"><Trash2 size={18}/></button></div></div>
             <h4 className="text-xl font-bold mb-1 truncate">{p.name}</h4><p className="text-gray-400 text-sm mb-6">{new Date(p.createdAt).toLocaleDateString()}</p>
             <div className="flex justify-between items-center"><div className="text-xs font-bold text-gray-400 uppercase">{p.items.length} Kalem</div><button onClick={() => onSelect(p.id)} className="bg-gray-900 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 group-hover:bg-blue-600 transition-colors">Aç <ArrowRight size={16}/></button></div>
           </div>
@@ -569,69 +1482,398 @@ const ProjectHubView = ({ projects, onCreate, onSelect, onDelete, onInfo, t, Sec
   );
 };
 
-const AuditHistoryView = ({ history, onView, onInfo, t, SectionHeader }: any) => (
-  <div className="space-y-8">
-    <header><SectionHeader title={t('history')} onInfo={onInfo} /><p className="text-gray-500">{history.length} {t('auditSaved')}</p></header>
-    <div className="grid gap-4">
-      {history.length === 0 ? <div className="py-20 text-center bg-white rounded-3xl border-2 border-dashed text-gray-400"><Clock size={48} className="mx-auto mb-4 opacity-10"/><p>Geçmiş bulunmuyor.</p></div> : history.map((h: any) => (
-        <div key={h.id} onClick={() => onView(h)} className="bg-white p-5 rounded-2xl border hover:border-blue-200 transition-all cursor-pointer flex justify-between items-center">
-          <div className="flex items-center gap-4"><div className={`h-12 w-12 rounded-full flex items-center justify-center font-black text-sm ${h.riskScore > 60 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>{h.riskScore}%</div><div><h4 className="font-bold text-lg">{h.projectName}</h4><span className="text-xs text-gray-400 font-medium">{new Date(h.date).toLocaleString()}</span></div></div>
-          <button className="text-blue-600 font-bold flex items-center gap-1">{t('viewReport')} <ChevronRight size={16}/></button>
+const AuditHistoryView = ({ history, onView, onPrint, onInfo, t, SectionHeader }: any) => {
+  const [projectFilter, setProjectFilter] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<AuditComparison | null>(null);
+  // Filtre proje + konum kapsamına göredir; ad en son denetimdeki haliyle gösterilir (geçmiş en yeniden eskiye sıralıdır).
+  const auditGroups = useMemo(() => {
+    const groups = new Map<string, AuditRecord>();
+    history.forEach((h: AuditRecord) => { if (!groups.has(auditGroupKey(h))) groups.set(auditGroupKey(h), h); });
+    return groups;
+  }, [history]);
+  const visible = projectFilter ? history.filter((h: AuditRecord) => auditGroupKey(h) === projectFilter) : history;
+  const trend = useMemo(() => {
+    const latest = auditGroups.get(projectFilter);
+    return latest ? buildRiskTrend(history, latest.projectId, latest.scope ?? null) : [];
+  }, [history, auditGroups, projectFilter]);
+
+  // Farklı projeden ya da konum kapsamından seçilen denetim seçimi yeniden başlatır; en fazla iki denetim seçilir.
+  const toggleCompare = (record: AuditRecord) => setCompareIds(prev => {
+    if (prev.includes(record.id)) return prev.filter(id => id !== record.id);
+    const sameGroup = prev.filter(id => {
+      const selected = history.find((h: AuditRecord) => h.id === id);
+      return selected && auditGroupKey(selected) === auditGroupKey(record);
+    });
+    return [...sameGroup, record.id].slice(-2);
+  });
+
+  const runComparison = () => {
+    const [first, second] = compareIds.map(id => history.find((h: AuditRecord) => h.id === id));
+    try {
+      setComparison(compareAudits(first, second));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  if (comparison) return <AuditComparisonView comparison={comparison} onClose={() => setComparison(null)} t={t} />;
+
+  return (
+    <div className="space-y-8">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
+        <div><SectionHeader title={t('history')} onInfo={onInfo} /><p className="text-gray-500">{history.length} {t('auditSaved')}</p></div>
+        <div className="flex flex-wrap gap-2">
+          <select value={projectFilter} onChange={e => setProjectFilter(e.target.value)} className="px-4 py-2 bg-white border rounded-xl text-sm font-bold outline-none">
+            <option value="">{t('allProjects')}</option>
+            {[...auditGroups].map(([key, latest]) => <option key={key} value={key}>{latest.projectName}</option>)}
+          </select>
+          <button onClick={runComparison} disabled={compareIds.length !== 2} className="px-4 py-2 bg-gray-900 text-white rounded-xl text-sm font-bold flex items-center gap-2 disabled:opacity-40"><GitCompare size={18} /> {t('compareAudits')} ({compareIds.length}/2)</button>
+        </div>
+      </header>
+      {projectFilter && trend.length > 1 && <RiskTrendChart points={trend} t={t} />}
+      <div className="grid gap-4">
+        {visible.length === 0 ? <div className="py-20 text-center bg-white rounded-3xl border-2 border-dashed text-gray-400"><Clock size={48} className="mx-auto mb-4 opacity-10"/><p>Geçmiş bulunmuyor.</p></div> : visible.map((h: any) => (
+          <div key={h.id} onClick={() => onView(h)} className={`bg-white p-5 rounded-2xl border hover:border-blue-200 transition-all cursor-pointer flex justify-between items-center ${compareIds.includes(h.id) ? 'border-blue-400 ring-2 ring-blue-100' : ''}`}>
+            <div className="flex items-center gap-4"><input type="checkbox" checked={compareIds.includes(h.id)} disabled={!hasSnapshot(h)} title={hasSnapshot(h) ? t('compareAudits') : t('noSnapshot')} onClick={e => e.stopPropagation()} onChange={() => toggleCompare(h)} /><div className={`h-12 w-12 rounded-full flex items-center justify-center font-black text-sm ${h.riskScore > 60 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>{h.riskScore}%</div><div><h4 className="font-bold text-lg">{h.projectName}{h.analysis.failed && h.localRisk && <span className="ml-2 align-middle text-[10px] font-black uppercase bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">{t('localScore')}</span>}</h4><span className="text-xs text-gray-400 font-medium">{new Date(h.date).toLocaleString()}</span></div></div>
+            <div className="flex items-center gap-4"><button onClick={e => { e.stopPropagation(); onPrint(h); }} title={t('printReport')} className="p-2 text-gray-400 hover:text-blue-600"><Printer size={18}/></button><button className="text-blue-600 font-bold flex items-center gap-1">{t('viewReport')} <ChevronRight size={16}/></button></div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Projenin risk puanı eğrisi: AI/birincil puan düz, yerel puan kesikli çizgiyle.
+const RiskTrendChart = ({ points, t }: { points: RiskTrendPoint[], t: any }) => {
+  const width = 640, height = 160, pad = 24;
+  const x = (i: number) => pad + (i / (points.length - 1)) * (width - 2 * pad);
+  const y = (score: number) => height - pad - (score / 100) * (height - 2 * pad);
+  const line = (values: (number | undefined)[]) => values.map((v, i) => v === undefined ? null : `${x(i)},${y(v)}`).filter(Boolean).join(' ');
+  return (
+    <div className="bg-white p-6 rounded-3xl border shadow-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold">{t('riskTrend')}</h3>
+        <div className="flex gap-4 text-[10px] font-bold text-gray-400 uppercase"><span className="text-blue-600">━ {t('riskScore')}</span><span>┅ {t('localScore')}</span></div>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40">
+        {[0, 50, 100].map(v => <g key={v}><line x1={pad} x2={width - pad} y1={y(v)} y2={y(v)} stroke="#f3f4f6" /><text x={2} y={y(v) + 3} fontSize="9" fill="#9ca3af">{v}</text></g>)}
+        <polyline points={line(points.map(p => p.localScore))} fill="none" stroke="#9ca3af" strokeWidth="2" strokeDasharray="4 4" />
+        <polyline points={line(points.map(p => p.riskScore))} fill="none" stroke="#2563eb" strokeWidth="2.5" />
+        {points.map((p, i) => <circle key={p.auditId} cx={x(i)} cy={y(p.riskScore)} r="3.5" fill={p.riskScore > 60 ? '#ef4444' : '#2563eb'}><title>{`${new Date(p.date).toLocaleString()} · ${p.riskScore}%`}</title></circle>)}
+      </svg>
+    </div>
+  );
+};
+
+// Aynı projenin iki anlık görüntüsü arasındaki kalem farkları (denetim karşılaştırma ve revizyonlar).
+const ItemDiffTable = ({ entries, t }: { entries: DiffEntry[], t: any }) => (
+  <table className="w-full text-xs text-left">
+    <thead className="bg-gray-50 border-b"><tr><th className="p-3">{t('diffKind')}</th><th className="p-3">Poz No</th><th className="p-3">Tanım</th><th className="p-3">{t('diffChanges')}</th></tr></thead>
+    <tbody className="divide-y">
+      {entries.map(entry => {
+        const item = entry.incoming || entry.existing!;
+        return (
+          <tr key={entry.id}>
+            <td className="p-3"><span className={`px-2 py-0.5 rounded-full font-black text-[10px] ${DIFF_KIND_STYLES[entry.kind]}`}>{t(`diff${entry.kind}`)}</span></td>
+            <td className="p-3 font-bold text-blue-600">{item.pozNumber}{item.isDeduction && <span className="text-red-500"> ({t('deduction')})</span>}</td>
+            <td className="p-3 text-gray-600">{item.description}</td>
+            <td className="p-3">
+              {entry.kind === 'CHANGED' ? entry.changes.map(c => (
+                <div key={c.field} className="whitespace-nowrap"><span className="font-bold text-gray-500">{fieldLabel(c.field, t)}:</span> <span className="line-through text-red-400">{formatDiffValue(c.before)}</span> → <span className="font-bold text-green-600">{formatDiffValue(c.after)}</span></div>
+              )) : <span className="text-gray-400">{item.totalQuantity} {item.unit}</span>}
+            </td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
+
+const AuditComparisonView = ({ comparison, onClose, t }: { comparison: AuditComparison, onClose: () => void, t: any }) => {
+  const { base, target, newFindings, resolvedFindings, persistingFindings, items } = comparison;
+  const itemsById = new Map<string, MetrajItem>([...base.items!, ...target.items!].map(i => [i.id, i]));
+  const findingGroups: [string, ValidationResult[], string][] = [
+    ['newFindings', newFindings, 'border-red-500'],
+    ['resolvedFindings', resolvedFindings, 'border-green-500'],
+    ['persistingFindings', persistingFindings, 'border-amber-500']
+  ];
+  return (
+    <div className="space-y-6">
+      <header className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-2xl font-black">{t('compareAudits')}</h2>
+          <p className="text-gray-500 text-sm">{target.projectName}: {new Date(base.date).toLocaleString()} ({base.riskScore}%) → {new Date(target.date).toLocaleString()} ({target.riskScore}%)</p>
+        </div>
+        <button onClick={onClose} className="px-4 py-2 bg-white border rounded-xl text-sm font-bold hover:bg-gray-50">{t('close')}</button>
+      </header>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {findingGroups.map(([key, results, border]) => (
+          <div key={key} className="bg-white rounded-3xl border shadow-sm p-5 space-y-3">
+            <h3 className="font-bold">{t(key)} <span className="text-gray-400">({results.length})</span></h3>
+            {results.map(r => (
+              <div key={`${r.ruleId}#${r.itemId}`} className={`border-l-4 pl-3 text-xs ${border}`}>
+                <span className="font-mono text-[10px] text-gray-400">{r.ruleId} · {itemsById.get(r.itemId)?.pozNumber || r.itemId}</span>
+                <p className="font-medium text-gray-700">{r.message}</p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <h3 className="font-bold p-5 border-b">{t('itemChanges')} <span className="text-gray-400">({items.length})</span></h3>
+        {items.length === 0 ? <div className="p-8 text-center text-gray-400 font-bold">{t('noItemChanges')}</div> : <ItemDiffTable entries={items} t={t} />}
+      </div>
+    </div>
+  );
+};
+
+const RISK_COMPONENT_LABELS: Record<RiskComponentKey, string> = { severity: 'riskSeverity', quantity: 'riskQuantity', mismatch: 'riskMismatch' };
+
+// Yerel risk puanının bileşenleri ve kategori bazında etkilenen kalemler.
+const LocalRiskCard = ({ risk, t }: { risk: RiskBreakdown, t: any }) => (
+  <div className="bg-white p-6 rounded-3xl border shadow-sm space-y-4">
+    <div className="flex justify-between items-center">
+      <h3 className="font-bold">{t('localScore')}</h3>
+      <span className={`text-2xl font-black ${risk.score > 60 ? 'text-red-500' : 'text-green-500'}`}>{risk.score}%</span>
+    </div>
+    <div className="space-y-3">
+      {risk.components.map(c => (
+        <div key={c.key}>
+          <div className="flex justify-between text-xs font-bold text-gray-500"><span>{t(RISK_COMPONENT_LABELS[c.key])} ({Math.round(c.share * 100)}%)</span><span>{c.points.toFixed(1)} / {c.weight}</span></div>
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mt-1"><div className="h-full bg-gray-800" style={{ width: `${c.share * 100}%` }} /></div>
         </div>
       ))}
     </div>
+    <table className="w-full text-xs">
+      <thead className="text-gray-400 uppercase text-[10px]"><tr><th className="text-left py-1">{t('category')}</th><th className="text-right">×</th><th className="text-right">{t('riskAffected')}</th><th className="text-right">{t('mismatch')}</th></tr></thead>
+      <tbody className="divide-y">
+        {risk.categories.map(c => (
+          <tr key={c.category}><td className="py-1 font-bold">{c.category}</td><td className="text-right text-gray-400">{c.weight}</td><td className="text-right">{c.affectedCount} / {c.itemCount}</td><td className="text-right">{c.mismatchCount}</td></tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="text-[11px] text-gray-400 leading-relaxed">{t('localScoreHint')}</p>
   </div>
 );
 
-const AIExpertPanel = ({ analysis, isAnalyzing, title, onInfo, t, SectionHeader }: any) => (
-  <div className="space-y-8">
-    <header><SectionHeader title={title || t('aiAdvisor')} onInfo={onInfo} /></header>
-    {isAnalyzing ? <div className="py-20 text-center"><Loader2 className="animate-spin h-12 w-12 mx-auto mb-4 text-blue-600" /><p>{t('aiAnalyzing')}</p></div> : analysis ? (
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-col items-center sticky top-24 h-fit">
-          <h3 className="font-bold text-lg mb-8">{t('riskProfile')}</h3>
-          <div className={`h-40 w-40 rounded-full border-[12px] flex items-center justify-center text-4xl font-black ${analysis.riskScore > 60 ? 'border-red-500 text-red-500' : 'border-green-500 text-green-500'}`}>{analysis.riskScore}%</div>
-          <p className="mt-8 text-center text-gray-500 leading-relaxed font-medium">{analysis.summary}</p>
+// AI bulgusu; projede bulunan ilgili kalemler tıklanınca tabloda vurgulanır (AI paneli ve denetim ekranı).
+const AIFindingCard = ({ finding: f, itemsById, projectId, onShowItems, t }: any) => {
+  const ids: string[] = (f.itemIds || []).filter((id: string) => itemsById.has(id));
+  return (
+    <div className={`bg-white p-6 rounded-3xl border-l-8 shadow-sm transition-all hover:translate-x-1 ${f.severity === 'CRITICAL' ? 'border-red-500' : 'border-amber-500'}`}>
+      <div className="flex justify-between mb-3"><h4 className="font-bold text-lg">{f.title}</h4><span className="text-[10px] font-mono bg-gray-100 px-2 py-1 rounded-full">{f.standard}</span></div>
+      <p className="text-gray-600 leading-relaxed">{f.explanation}</p>
+      {ids.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <button onClick={() => onShowItems(ids, projectId)} className="text-[10px] font-black text-blue-600 uppercase flex items-center gap-1 hover:underline"><Crosshair size={12} /> {t('showInTable')}:</button>
+          {ids.map(id => itemsById.get(id)).map((it: any) => (
+            <button key={it.id} onClick={() => onShowItems([it.id], projectId)} title={it.description} className={`text-[11px] font-bold px-2 py-0.5 rounded-full hover:ring-2 hover:ring-blue-300 ${it.isDeduction ? 'bg-red-50 text-red-500' : 'bg-gray-100 text-gray-600'}`}>
+              {it.pozNumber} · {Number(it.calculatedQuantity).toFixed(2)} {it.unit}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AIExpertPanel = ({ analysis, isAnalyzing, progress, title, record, onPrint, projects, onShowItems, onInfo, t, SectionHeader }: any) => {
+  const projectId = record?.projectId;
+  const itemsById = new Map<string, MetrajItem>((projects.find((p: Project) => p.id === projectId)?.items || []).map((i: MetrajItem) => [i.id, i]));
+  return (
+    <div className="space-y-8">
+      <header className="flex justify-between items-end"><SectionHeader title={title || t('aiAdvisor')} onInfo={onInfo} />{record && !isAnalyzing && <button onClick={() => onPrint(record)} className="bg-gray-900 text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg"><Printer size={20}/> {t('printReport')}</button>}</header>
+      {isAnalyzing ? <div className="py-20 text-center"><Loader2 className="animate-spin h-12 w-12 mx-auto mb-4 text-blue-600" /><p>{t('aiAnalyzing')}</p>{progress?.total > 1 && (
+        <div className="max-w-sm mx-auto mt-6 space-y-2">
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden"><div className="h-full bg-blue-600 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} /></div>
+          <p className="text-xs text-gray-400 font-bold">{t('aiBatchProgress')}: {progress.done} / {progress.total}</p>
         </div>
-        <div className="lg:col-span-2 space-y-4">
-          <h3 className="font-bold text-xl px-2">{t('keyFindings')}</h3>
-          {analysis.findings.map((f: any, i: number) => (
-            <div key={i} className={`bg-white p-6 rounded-3xl border-l-8 shadow-sm transition-all hover:translate-x-1 ${f.severity === 'CRITICAL' ? 'border-red-500' : 'border-amber-500'}`}>
-              <div className="flex justify-between mb-3"><h4 className="font-bold text-lg">{f.title}</h4><span className="text-[10px] font-mono bg-gray-100 px-2 py-1 rounded-full">{f.standard}</span></div>
-              <p className="text-gray-600 leading-relaxed">{f.explanation}</p>
+      )}</div> : analysis ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="space-y-4 sticky top-24 h-fit">
+            <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-col items-center">
+              <h3 className="font-bold text-lg mb-8">{t('riskProfile')} · AI</h3>
+              {analysis.failed
+                ? <div className="h-40 w-40 rounded-full border-[12px] border-gray-200 flex items-center justify-center text-4xl font-black text-gray-300">—</div>
+                : <div className={`h-40 w-40 rounded-full border-[12px] flex items-center justify-center text-4xl font-black ${analysis.riskScore > 60 ? 'border-red-500 text-red-500' : 'border-green-500 text-green-500'}`}>{analysis.riskScore}%</div>}
+              <p className="mt-8 text-center text-gray-500 leading-relaxed font-medium">{analysis.failed ? t('aiUnavailable') : analysis.summary}</p>
+            </div>
+            {record?.localRisk && <LocalRiskCard risk={record.localRisk} t={t} />}
+          </div>
+          <div className="lg:col-span-2 space-y-4">
+            <h3 className="font-bold text-xl px-2">{t('keyFindings')}</h3>
+            {analysis.findings.map((f: AIFinding, i: number) => <AIFindingCard key={i} finding={f} itemsById={itemsById} projectId={projectId} onShowItems={onShowItems} t={t} />)}
+          </div>
+        </div>
+      ) : <div className="py-20 text-center bg-white rounded-3xl border border-dashed text-gray-400">{t('noData')}</div>}
+    </div>
+  );
+};
+
+const ValidationView = ({ results, mutedResults, aiFindings, project, ruleDefinitions, onUpdateRuleConfig, onMute, onUnmute, onApplyFix, onShowItems, allItems, scope, onScopeChange, isAnalyzing, onInfo, t, SectionHeader }: any) => {
+  const [showRules, setShowRules] = useState(false);
+  const rulesById = new Map<string, RuleDefinition>(ruleDefinitions.map((r: RuleDefinition) => [r.id, r]));
+  const itemsById = new Map<string, MetrajItem>(allItems.map((i: MetrajItem) => [i.id, i]));
+  const mute = (res: ValidationResult) => {
+    const justification = prompt(t('muteJustification'));
+    if (justification && justification.trim()) onMute(res, justification.trim());
+  };
+  const mutedInfo = (res: ValidationResult) => project?.mutedFindings?.find((m: MutedFinding) => m.ruleId === res.ruleId && m.itemId === res.itemId);
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
+        <SectionHeader title={t('audit')} onInfo={onInfo} />
+        <div className="flex flex-wrap gap-2">
+          <LocationScopeSelect items={allItems} value={scope} onChange={onScopeChange} t={t} />
+          {project && <button onClick={() => setShowRules(!showRules)} className={`px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 ${showRules ? 'bg-gray-900 text-white' : 'bg-white border hover:bg-gray-50'}`}><SlidersHorizontal size={18} /> {t('ruleSettings')}</button>}
+        </div>
+      </header>
+      {showRules && project && <RuleSettingsPanel rules={ruleDefinitions} config={project.ruleConfig || EMPTY_RULE_CONFIG} onChange={onUpdateRuleConfig} t={t} />}
+      {isAnalyzing ? <div className="py-20 text-center">Motor kuralları işliyor...</div> : (
+        <div className="grid gap-4">
+          {results.map((res: ValidationResult, i: number) => (
+            <div key={i} className={`p-6 bg-white rounded-2xl border-l-8 shadow-sm ${res.severity === 'CRITICAL' ? 'border-red-500' : 'border-amber-500'}`}>
+              <div className="flex justify-between items-start gap-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{res.standardReference}</span>
+                  <span title={rulesById.get(res.ruleId)?.description} className="text-[10px] font-mono bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">{res.ruleId}</span>
+                </div>
+                <div className="flex items-center gap-4">
+                  <button onClick={() => onShowItems([res.itemId, ...(res.relatedItemIds || [])].filter((id, idx, ids) => ids.indexOf(id) === idx))} className="text-gray-300 hover:text-blue-600 flex items-center gap-1 text-xs font-bold"><Crosshair size={14} /> {t('showInTable')}</button>
+                  <button onClick={() => mute(res)} title={t('muteFinding')} className="text-gray-300 hover:text-gray-600 flex items-center gap-1 text-xs font-bold"><BellOff size={14} /> {t('muteFinding')}</button>
+                </div>
+              </div>
+              <h4 className="font-bold text-xl mt-1">{res.message}</h4>
+              <p className="text-gray-500 mt-2 font-medium">👉 {res.suggestedAction}</p>
+              {res.relatedItemIds && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="text-[10px] font-black text-gray-400 uppercase">{t('relatedItems')}:</span>
+                  {res.relatedItemIds.map(id => itemsById.get(id)).filter(Boolean).map((it: any) => (
+                    <button key={it.id} onClick={() => onShowItems([it.id])} title={it.description} className={`text-[11px] font-bold px-2 py-0.5 rounded-full hover:ring-2 hover:ring-blue-300 ${it.isDeduction ? 'bg-red-50 text-red-500' : 'bg-gray-100 text-gray-600'}`}>
+                      {it.pozNumber} · {Number(it.calculatedQuantity).toFixed(2)} {it.unit}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {res.fix && (
+                <button onClick={() => onApplyFix(res)} className="mt-4 px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-blue-100">
+                  <Wand2 size={16} /> {t('applyFix')}: {res.fix.label}
+                </button>
+              )}
             </div>
           ))}
+          {results.length === 0 && <div className="py-12 text-center bg-green-50 text-green-600 rounded-3xl font-bold"><CheckCircle className="mx-auto mb-2" size={32}/> Her şey yolunda görünüyor!</div>}
+          {aiFindings.length > 0 && (
+            <div className="mt-4 space-y-4">
+              <h3 className="font-bold text-gray-400 uppercase text-xs tracking-widest px-2">{t('latestAiFindings')} ({aiFindings.length})</h3>
+              {aiFindings.map((f: AIFinding, i: number) => <AIFindingCard key={i} finding={f} itemsById={itemsById} projectId={project?.id} onShowItems={onShowItems} t={t} />)}
+            </div>
+          )}
+          {mutedResults.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <h3 className="font-bold text-gray-400 uppercase text-xs tracking-widest px-2">{t('mutedFindings')} ({mutedResults.length})</h3>
+              {mutedResults.map((res: ValidationResult, i: number) => (
+                <div key={i} className="p-4 bg-gray-50 rounded-2xl border border-dashed flex justify-between items-start gap-4 text-gray-500">
+                  <div>
+                    <span className="text-[10px] font-mono bg-white px-2 py-0.5 rounded-full">{res.ruleId}</span>
+                    <p className="font-medium mt-1 line-through decoration-gray-300">{res.message}</p>
+                    <p className="text-xs mt-1 italic">“{mutedInfo(res)?.justification}”</p>
+                  </div>
+                  <button onClick={() => onUnmute(res)} className="text-xs font-bold text-blue-600 whitespace-nowrap">{t('unmute')}</button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
-      </div>
-    ) : <div className="py-20 text-center bg-white rounded-3xl border border-dashed text-gray-400">{t('noData')}</div>}
-  </div>
-);
+      )}
+    </div>
+  );
+};
 
-const ValidationView = ({ results, isAnalyzing, onInfo, t, SectionHeader }: any) => (
-  <div className="space-y-6">
-    <SectionHeader title={t('audit')} onInfo={onInfo} />
-    {isAnalyzing ? <div className="py-20 text-center">Motor kuralları işliyor...</div> : (
-      <div className="grid gap-4">
-        {results.map((res: any, i: number) => (
-          <div key={i} className={`p-6 bg-white rounded-2xl border-l-8 shadow-sm ${res.severity === 'CRITICAL' ? 'border-red-500' : 'border-amber-500'}`}>
-            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{res.standardReference}</span>
-            <h4 className="font-bold text-xl mt-1">{res.message}</h4>
-            <p className="text-gray-500 mt-2 font-medium">👉 {res.suggestedAction}</p>
-          </div>
-        ))}
-        {results.length === 0 && <div className="py-12 text-center bg-green-50 text-green-600 rounded-3xl font-bold"><CheckCircle className="mx-auto mb-2" size={32}/> Her şey yolunda görünüyor!</div>}
-      </div>
-    )}
-  </div>
-);
+// Proje bazında kural açma/kapama ve parametre düzenleme.
+const RuleSettingsPanel = ({ rules, config, onChange, t }: { rules: RuleDefinition[], config: ProjectRuleConfig, onChange: (config: ProjectRuleConfig) => void, t: any }) => {
+  const toggle = (id: string) => onChange({
+    ...config,
+    disabledRules: config.disabledRules.includes(id) ? config.disabledRules.filter(r => r !== id) : [...config.disabledRules, id]
+  });
+  return (
+    <div className="bg-white border rounded-3xl shadow-sm divide-y">
+      {rules.map(rule => (
+        <div key={rule.id} className="p-4 flex flex-col md:flex-row md:items-start gap-4">
+          <label className="flex items-start gap-3 flex-1 cursor-pointer">
+            <input type="checkbox" className="mt-1" checked={!config.disabledRules.includes(rule.id)} onChange={() => toggle(rule.id)} />
+            <div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono text-xs font-bold">{rule.id}</span>
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${rule.severity === 'CRITICAL' ? 'bg-red-50 text-red-600' : rule.severity === 'WARNING' ? 'bg-amber-50 text-amber-600' : 'bg-blue-50 text-blue-600'}`}>{rule.severity}</span>
+                {!rule.builtIn && <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600">{t('customRule')}</span>}
+              </div>
+              <p className="text-sm text-gray-500 mt-1">{rule.description}</p>
+              {(rule.categories?.length || rule.units?.length) ? <p className="text-[10px] text-gray-400 mt-1">{[...(rule.categories || []), ...(rule.units || [])].join(' · ')}</p> : null}
+            </div>
+          </label>
+          {rule.params && (
+            <RuleParamsEditor
+              value={{ ...rule.params, ...config.params[rule.id] }}
+              onChange={(params: Record<string, any>) => onChange({ ...config, params: { ...config.params, [rule.id]: params } })}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const RuleParamsEditor = ({ value, onChange }: { value: Record<string, any>, onChange: (params: Record<string, any>) => void }) => {
+  const [text, setText] = useState(JSON.stringify(value, null, 2));
+  const [error, setError] = useState(false);
+  return (
+    <textarea
+      value={text}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => {
+        try { onChange(JSON.parse(text)); setError(false); } catch { setError(true); }
+      }}
+      rows={Math.min(8, text.split('\n').length)}
+      className={`md:w-80 font-mono text-[11px] p-3 bg-gray-50 rounded-xl outline-none focus:ring-2 ${error ? 'ring-2 ring-red-400' : 'focus:ring-blue-500'}`}
+    />
+  );
+};
+
+const formatCurrency = (val: number) => val.toLocaleString('tr-TR', { style: 'currency', currency: 'TRY' });
 
-const ReportsView = ({ activeProject, settings, onInfo, t, SectionHeader }: any) => {
+const ReportsView = ({ activeProject, allItems, findings, scope, onScopeChange, settings, catalogs, activeCatalog, onSelectCatalog, onInfo, t, SectionHeader }: any) => {
   const exportToExcel = () => {
     if (!activeProject) return;
-    const worksheet = XLSX.utils.json_to_sheet(activeProject.items);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Metraj");
-    XLSX.writeFile(workbook, `${activeProject.name}_Detayli_Metraj.xlsx`);
+    const workbook = buildMetrajWorkbook(activeProject, {
+      orgName: settings.orgName,
+      scopeLabel: scope !== null ? (scope.split('|').filter(Boolean).join(' / ') || t('unassigned')) : undefined,
+      findings,
+      catalog: activeCatalog,
+      tolerances: activeProject.ruleConfig?.params.QUANTITY_MISMATCH?.tolerances
+    });
+    // Hakediş miktarları proje geneline ait olduğundan keşif ve kalan, konum kapsamından bağımsız olarak tüm kalemlerden hesaplanır.
+    const fullProject = { ...activeProject, items: allItems };
+    sortPeriods(activeProject.periods).forEach((period: PaymentPeriod) => {
+      const rows = buildPeriodSummary(fullProject, period.id, activeCatalog).map((r: PeriodSummaryRow) => ({
+        'Poz No': r.pozNumber,
+        'Tanım': r.description,
+        'Birim': r.unit,
+        'Keşif Miktarı': r.quantity,
+        'Önceki Kümülatif': r.previousCumulative,
+        'Bu Dönem': r.thisPeriod,
+        'Toplam Kümülatif': r.totalCumulative,
+        'Kalan': r.remaining,
+        'Birim Fiyat': r.unitPrice,
+        'Bu Dönem Tutarı': r.thisPeriodAmount,
+        'Kümülatif Tutar': r.cumulativeAmount
+      }));
+      // Excel sayfa adları 31 karakterle sınırlıdır.
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), `Hakediş ${period.no}`.slice(0, 31));
+    });
+    XLSX.writeFile(workbook, `${activeProject.name}_Metraj_Cetveli.xlsx`);
   };
   const stats = useMemo(() => {
     if (!activeProject) return { vol: 0, area: 0, count: 0 };
@@ -642,10 +1884,12 @@ const ReportsView = ({ activeProject, settings, onInfo, t, SectionHeader }: any)
       return acc;
     }, { vol: 0, area: 0, count: 0 });
   }, [activeProject]);
+  const rebarSummary = useMemo(() => activeProject ? summarizeRebarByDiameter(activeProject.items) : [], [activeProject]);
+  const bill = useMemo(() => activeProject ? buildBillOfQuantities(activeProject.items, activeCatalog) : null, [activeProject, activeCatalog]);
 
   return (
     <div className="space-y-8">
-      <header className="flex justify-between items-end"><SectionHeader title={t('reports')} onInfo={onInfo} /><button onClick={exportToExcel} disabled={!activeProject} className="bg-green-600 text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg disabled:opacity-50"><Download size={20}/> {t('exportExcel')}</button></header>
+      <header className="flex flex-wrap justify-between items-end gap-4"><SectionHeader title={t('reports')} onInfo={onInfo} /><div className="flex-1" /><LocationScopeSelect items={allItems} value={scope} onChange={onScopeChange} t={t} /><button onClick={exportToExcel} disabled={!activeProject} className="bg-green-600 text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg disabled:opacity-50"><Download size={20}/> {t('exportExcel')}</button></header>
       {!activeProject ? <div className="py-20 text-center bg-white border-2 border-dashed rounded-3xl"><Info size={40} className="mx-auto mb-4 opacity-20"/><p>{t('noProjectSelected')}</p></div> : (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <StatCard label={t('itemsCount')} value={stats.count} icon={Database} color="text-blue-500" />
@@ -653,22 +1897,460 @@ const ReportsView = ({ activeProject, settings, onInfo, t, SectionHeader }: any)
           <StatCard label={t('totalArea')} value={stats.area.toFixed(2) + ' m²'} icon={FileText} color="text-amber-500" />
         </div>
       )}
+      {rebarSummary.length > 0 && (
+        <div className="bg-white border rounded-3xl shadow-sm overflow-hidden">
+          <div className="p-6 border-b"><h3 className="text-lg font-bold flex items-center gap-2"><Layers className="text-blue-600" size={20}/> {t('rebarSummary')}</h3></div>
+          <table className="w-full text-xs text-left">
+            <thead className="bg-gray-50 font-bold uppercase text-gray-400 border-b">
+              <tr><th className="p-4">{t('rebarDiameter')}</th><th className="p-4 text-right">{t('rebarLength')}</th><th className="p-4 text-right">kg</th><th className="p-4 text-right">ton</th></tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rebarSummary.map(r => (
+                <tr key={r.diameter}><td className="p-4 font-bold text-blue-600">Ø{r.diameter}</td><td className="p-4 text-right">{r.length.toFixed(2)}</td><td className="p-4 text-right font-bold">{r.weight.toFixed(2)}</td><td className="p-4 text-right">{(r.weight / 1000).toFixed(3)}</td></tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="bg-gray-900 text-white font-black"><td colSpan={2} className="p-4 text-right uppercase">{t('grandTotal')}</td><td className="p-4 text-right">{rebarSummary.reduce((s, r) => s + r.weight, 0).toFixed(2)}</td><td className="p-4 text-right">{(rebarSummary.reduce((s, r) => s + r.weight, 0) / 1000).toFixed(3)}</td></tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+      {activeProject && bill && (
+        <div className="bg-white border rounded-3xl shadow-sm overflow-hidden">
+          <div className="p-6 border-b flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+            <div>
+              <h3 className="text-lg font-bold flex items-center gap-2"><Calculator className="text-blue-600" size={20}/> {t('costEstimate')}</h3>
+              {bill.unknownPozCount > 0 && <p className="text-xs text-amber-600 font-bold mt-1">{bill.unknownPozCount} {t('unknownPozes')}</p>}
+            </div>
+            <select value={activeCatalog?.id || ''} onChange={e => onSelectCatalog(e.target.value)} disabled={catalogs.length === 0} className="px-4 py-2 bg-gray-50 rounded-xl outline-none font-bold text-sm disabled:opacity-50">
+              {catalogs.length === 0 && <option value="">{t('noCatalog')}</option>}
+              {catalogs.map((c: PriceCatalog) => <option key={c.id} value={c.id}>{c.year} - {c.name}</option>)}
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left min-w-[900px]">
+              <thead className="bg-gray-50 font-bold uppercase text-gray-400 border-b">
+                <tr><th className="p-4">Poz No</th><th className="p-4">Tanım</th><th className="p-4">Birim</th><th className="p-4 text-right">Miktar</th><th className="p-4 text-right">{t('unitPrice')}</th><th className="p-4 text-right">{t('amount')}</th></tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {Object.keys(bill.categoryTotals).map(category => (
+                  <React.Fragment key={category}>
+                    {bill.lines.filter(l => l.category === category).map(l => (
+                      <tr key={l.pozNumber} className={l.found ? '' : 'bg-amber-50/50'}>
+                        <td className="p-4 font-bold text-blue-600">{l.pozNumber}{!l.found && <AlertTriangle size={12} className="inline ml-1 text-amber-500" />}</td>
+                        <td className="p-4 text-gray-600">{l.description}</td>
+                        <td className="p-4">{l.unit}</td>
+                        <td className="p-4 text-right font-bold">{l.quantity.toFixed(3)}</td>
+                        <td className="p-4 text-right">{l.found ? formatCurrency(l.unitPrice) : '-'}</td>
+                        <td className="p-4 text-right font-bold">{formatCurrency(l.amount)}</td>
+                      </tr>
+                    ))}
+                    <tr className="bg-gray-50 font-black"><td colSpan={5} className="p-4 text-right uppercase text-gray-500">{category} {t('subtotal')}</td><td className="p-4 text-right">{formatCurrency(bill.categoryTotals[category])}</td></tr>
+                  </React.Fragment>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="bg-gray-900 text-white font-black text-sm"><td colSpan={5} className="p-4 text-right uppercase">{t('grandTotal')}</td><td className="p-4 text-right">{formatCurrency(bill.grandTotal)}</td></tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const formatDelta = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(3)}`;
+
+const RevisionsView = ({ activeProject, revisions, onSave, onDelete, onBranch, onInfo, t, SectionHeader }: any) => {
+  const [name, setName] = useState('');
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  // Varsayılan karşılaştırma: son revizyon → güncel çalışma
+  const [baseId, setBaseId] = useState<string>(revisions[revisions.length - 1]?.id || CURRENT_REVISION_ID);
+  const [targetId, setTargetId] = useState<string>(CURRENT_REVISION_ID);
+  const diff = useMemo(() =>
+    activeProject && baseId !== targetId ? diffRevisions(revisionItems(activeProject, revisions, baseId), revisionItems(activeProject, revisions, targetId)) : null,
+    [activeProject, revisions, baseId, targetId]
+  );
+
+  if (!activeProject) return <div className="py-20 text-center"><Info size={40} className="mx-auto mb-4 opacity-20" /><p>{t('noProjectSelected')}</p></div>;
+
+  const viewing = revisions.find(r => r.id === viewingId);
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onSave(name)) setName('');
+  };
+  const remove = (revision: ProjectRevision) => {
+    if (!confirm(`${revision.name}: ${t('deleteRevisionConfirm')}`)) return;
+    if (baseId === revision.id) setBaseId(CURRENT_REVISION_ID);
+    if (targetId === revision.id) setTargetId(CURRENT_REVISION_ID);
+    if (viewingId === revision.id) setViewingId(null);
+    onDelete(revision.id);
+  };
+  const revisionOptions = [...revisions.map(r => <option key={r.id} value={r.id}>{r.name}</option>), <option key={CURRENT_REVISION_ID} value={CURRENT_REVISION_ID}>{t('currentWorkingCopy')}</option>];
+
+  return (
+    <div className="space-y-8">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
+        <SectionHeader title={t('revisions')} onInfo={onInfo} />
+        <form onSubmit={save} className="flex gap-2">
+          <input value={name} onChange={e => setName(e.target.value)} placeholder={t('revisionNamePlaceholder')} className="px-4 py-2 bg-white border rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+          <button type="submit" disabled={!name.trim()} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"><Save size={18} /> {t('saveRevision')}</button>
+        </form>
+      </header>
+
+      <div className="bg-white border rounded-3xl shadow-sm divide-y">
+        {revisions.length === 0 ? <div className="p-10 text-center text-gray-400 font-bold">{t('noRevisions')}</div> : [...revisions].reverse().map(r => (
+          <div key={r.id} className={`p-4 flex items-center gap-4 ${viewingId === r.id ? 'bg-blue-50/50' : ''}`}>
+            <GitBranch size={18} className="text-gray-300" />
+            <div className="flex-1"><h4 className="font-bold">{r.name}</h4><span className="text-xs text-gray-400">{new Date(r.createdAt).toLocaleString()} · {r.items.length} {t('historyRows')}</span></div>
+            <button onClick={() => setViewingId(viewingId === r.id ? null : r.id)} className="px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 bg-gray-100 hover:bg-gray-200"><Eye size={14} /> {t('viewRevision')}</button>
+            <button onClick={() => onBranch(r.id)} className="px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 bg-blue-50 text-blue-600 hover:bg-blue-100"><GitBranch size={14} /> {t('branchRevision')}</button>
+            <button onClick={() => remove(r)} className="p-2 text-gray-300 hover:text-red-500"><Trash2 size={16} /></button>
+          </div>
+        ))}
+      </div>
+
+      {viewing && (
+        <div className="bg-white border rounded-3xl shadow-sm overflow-x-auto">
+          <h3 className="font-bold p-5 border-b flex items-center gap-2">{viewing.name} <span className="text-[10px] font-black uppercase bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">{t('readOnly')}</span></h3>
+          <table className="w-full text-xs text-left">
+            <thead className="bg-gray-50 border-b font-bold uppercase text-gray-400"><tr><th className="p-3">Poz No / Açıklama</th><th className="p-3">Kategori</th><th className="p-3">{t('location')}</th><th className="p-3">Birim</th><th className="p-3 text-center">X</th><th className="p-3 text-center">Y</th><th className="p-3 text-center">Z</th><th className="p-3 text-center">Benzer</th><th className="p-3 text-right">Hesaplanan</th><th className="p-3 text-right">Manuel</th></tr></thead>
+            <tbody className="divide-y">
+              {viewing.items.map(item => (
+                <tr key={item.id} className={item.isDeduction ? 'bg-red-50/30' : ''}>
+                  <td className={`p-3 ${item.isDeduction ? 'pl-8' : ''}`}><div className={`font-bold ${item.isDeduction ? 'text-red-500' : 'text-blue-600'}`}>{item.pozNumber}</div><div className="text-gray-500">{item.description}</div></td>
+                  <td className="p-3">{item.category}</td>
+                  <td className="p-3 text-gray-500">{formatDiffValue(item.location)}</td>
+                  <td className="p-3">{item.unit}</td>
+                  <td className="p-3 text-center">{item.x}</td><td className="p-3 text-center">{item.y}</td><td className="p-3 text-center">{item.z}</td><td className="p-3 text-center">{item.multiplier}</td>
+                  <td className="p-3 text-right text-gray-400 font-bold">{item.calculatedQuantity.toFixed(3)}</td>
+                  <td className="p-3 text-right font-black">{item.totalQuantity.toFixed(3)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="font-bold text-lg mr-2 flex items-center gap-2"><GitCompare size={20} className="text-blue-600" /> {t('compareRevisions')}</h3>
+          <select value={baseId} onChange={e => setBaseId(e.target.value)} className="px-3 py-2 bg-white border rounded-xl text-sm font-bold outline-none">{revisionOptions}</select>
+          <ArrowRight size={16} className="text-gray-400" />
+          <select value={targetId} onChange={e => setTargetId(e.target.value)} className="px-3 py-2 bg-white border rounded-xl text-sm font-bold outline-none">{revisionOptions}</select>
+        </div>
+        {!diff ? <div className="py-10 text-center bg-white rounded-3xl border border-dashed text-gray-400 font-bold">{t('selectTwoRevisions')}</div> : (<>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-white border rounded-3xl shadow-sm overflow-hidden">
+              <h4 className="font-bold p-4 border-b">{t('categoryTotals')}</h4>
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-400 uppercase text-[10px]"><tr><th className="p-3 text-left">{t('category')}</th><th className="p-3 text-right">{t('before')}</th><th className="p-3 text-right">{t('after')}</th><th className="p-3 text-right">Δ</th></tr></thead>
+                <tbody className="divide-y">
+                  {diff.categories.map(c => (
+                    <tr key={`${c.category}|${c.unit}`}><td className="p-3 font-bold">{c.category} <span className="text-gray-400 font-medium">({c.unit})</span></td><td className="p-3 text-right">{c.before.toFixed(3)}</td><td className="p-3 text-right">{c.after.toFixed(3)}</td><td className={`p-3 text-right font-black ${c.delta > 0 ? 'text-green-600' : c.delta < 0 ? 'text-red-600' : 'text-gray-400'}`}>{formatDelta(c.delta)}</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="bg-white border rounded-3xl shadow-sm overflow-hidden">
+              <h4 className="font-bold p-4 border-b">{t('pozDeltas')} <span className="text-gray-400">({diff.poz.length})</span></h4>
+              {diff.poz.length === 0 ? <div className="p-8 text-center text-gray-400 font-bold">{t('noQuantityChanges')}</div> : (
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-400 uppercase text-[10px]"><tr><th className="p-3 text-left">Poz No</th><th className="p-3 text-right">{t('before')}</th><th className="p-3 text-right">{t('after')}</th><th className="p-3 text-right">Δ</th></tr></thead>
+                  <tbody className="divide-y">
+                    {diff.poz.map(d => (
+                      <tr key={d.pozNumber}><td className="p-3"><span className="font-bold text-blue-600">{d.pozNumber}</span> <span className="text-gray-500">{d.description}</span></td><td className="p-3 text-right">{d.before.toFixed(3)}</td><td className="p-3 text-right">{d.after.toFixed(3)} {d.unit}</td><td className={`p-3 text-right font-black ${d.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>{formatDelta(d.delta)}</td></tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+          <div className="bg-white border rounded-3xl shadow-sm overflow-hidden">
+            <h4 className="font-bold p-4 border-b">{t('itemChanges')} <span className="text-gray-400">({diff.items.length})</span></h4>
+            {diff.items.length === 0 ? <div className="p-8 text-center text-gray-400 font-bold">{t('noItemChanges')}</div> : <ItemDiffTable entries={diff.items} t={t} />}
+          </div>
+        </>)}
+      </div>
     </div>
   );
 };
 
-const SettingsView = ({ settings, setSettings, onClear, onInfo, t, SectionHeader }: any) => {
+const HakedisView = ({ activeProject, activeCatalog, setPeriods, onInfo, t, SectionHeader }: any) => {
+  const periods: PaymentPeriod[] = sortPeriods(activeProject?.periods);
+  const [selectedPeriodId, setSelectedPeriodId] = useState<string | null>(periods[periods.length - 1]?.id || null);
+  const summary = useMemo(() =>
+    activeProject && selectedPeriodId ? buildPeriodSummary(activeProject, selectedPeriodId, activeCatalog) : [],
+    [activeProject, selectedPeriodId, activeCatalog]
+  );
+
+  if (!activeProject) return <div className="py-20 text-center"><Info size={40} className="mx-auto mb-4 opacity-20" /><p>{t('noProjectSelected')}</p></div>;
+
+  const selectedPeriod = periods.find(p => p.id === selectedPeriodId);
+
+  const addPeriod = () => {
+    const last = periods[periods.length - 1];
+    const no = (last?.no || 0) + 1;
+    const period: PaymentPeriod = {
+      id: Date.now().toString(),
+      no,
+      name: `${no} ${t('periodName')}`,
+      ...nextPeriodDates(last),
+      quantities: {}
+    };
+    setPeriods([...periods, period]);
+    setSelectedPeriodId(period.id);
+  };
+
+  const updatePeriod = (patch: Partial<PaymentPeriod>) => {
+    setPeriods(periods.map(p => p.id === selectedPeriodId ? { ...p, ...patch } : p));
+  };
+
+  const deletePeriod = () => {
+    const rest = periods.filter(p => p.id !== selectedPeriodId);
+    setPeriods(rest);
+    setSelectedPeriodId(rest[rest.length - 1]?.id || null);
+  };
+
+  const totals = summary.reduce((acc, r) => ({ thisPeriod: acc.thisPeriod + r.thisPeriodAmount, cumulative: acc.cumulative + r.cumulativeAmount }), { thisPeriod: 0, cumulative: 0 });
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
+        <div><div className="text-xs font-bold text-blue-600 uppercase mb-1">{activeProject.name}</div><SectionHeader title={t('hakedis')} onInfo={onInfo} /></div>
+        <button onClick={addPeriod} disabled={getContractLines(activeProject.items).length === 0} className="bg-blue-600 text-white px-6 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-blue-500/20 disabled:opacity-50"><Plus size={20} /> {t('newPeriod')}</button>
+      </header>
+
+      {periods.length === 0 ? (
+        <div className="py-20 text-center bg-white border-2 border-dashed rounded-3xl text-gray-400"><Wallet size={48} className="mx-auto mb-4 opacity-20"/><p>{t('noPeriods')}</p></div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {periods.map(p => (
+              <button key={p.id} onClick={() => setSelectedPeriodId(p.id)} className={`px-4 py-2 rounded-xl text-sm font-bold transition-all ${p.id === selectedPeriodId ? 'bg-gray-900 text-white' : 'bg-white border text-gray-500 hover:bg-gray-50'}`}>{p.name}</button>
+            ))}
+          </div>
+
+          {selectedPeriod && (
+            <div className="bg-white p-6 rounded-3xl border shadow-sm grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('periodTitle')}</label><input value={selectedPeriod.name} onChange={e => updatePeriod({ name: e.target.value })} className="w-full mt-1 px-4 py-2 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold" /></div>
+              <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('periodStart')}</label><input type="date" value={selectedPeriod.startDate} onChange={e => updatePeriod({ startDate: e.target.value })} className="w-full mt-1 px-4 py-2 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold" /></div>
+              <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('periodEnd')}</label><input type="date" value={selectedPeriod.endDate} onChange={e => updatePeriod({ endDate: e.target.value })} className="w-full mt-1 px-4 py-2 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold" /></div>
+              <button onClick={deletePeriod} className="py-2 text-red-500 font-bold rounded-xl hover:bg-red-50 flex items-center justify-center gap-2"><Trash2 size={16}/> {t('delete')}</button>
+            </div>
+          )}
+
+          <div className="bg-white border rounded-3xl overflow-hidden shadow-sm overflow-x-auto">
+            <table className="w-full text-xs text-left min-w-[1100px]">
+              <thead className="bg-gray-50 font-bold uppercase text-gray-400 border-b">
+                <tr>
+                  <th className="p-4">Poz No / Açıklama</th><th className="p-4">Birim</th>
+                  <th className="p-4 text-right">{t('contractQty')}</th><th className="p-4 text-right">{t('previousCumulative')}</th>
+                  <th className="p-4 text-right bg-blue-50/50">{t('thisPeriod')}</th><th className="p-4 text-right">{t('totalCumulative')}</th>
+                  <th className="p-4 text-right">{t('remaining')}</th><th className="p-4 text-right">{t('amount')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summary.map((row: PeriodSummaryRow) => (
+                  <tr key={row.key} className={row.exceedsContract ? 'bg-red-50/60' : 'hover:bg-gray-50'}>
+                    <td className="p-4"><div className="font-bold text-blue-600">{row.pozNumber}</div><div className="text-gray-500 truncate max-w-xs">{row.description}</div></td>
+                    <td className="p-4 font-medium">{row.unit}</td>
+                    <td className="p-4 text-right font-bold">{row.quantity.toFixed(3)}</td>
+                    <td className="p-4 text-right text-gray-400">{row.previousCumulative.toFixed(3)}</td>
+                    <td className="p-2 w-32 bg-blue-50/20"><CellInput type="number" value={row.thisPeriod} onChange={(v: number) => updatePeriod({ quantities: { ...selectedPeriod!.quantities, [row.key]: v } })} className="text-right font-black" /></td>
+                    <td className={`p-4 text-right font-black ${row.exceedsContract ? 'text-red-600' : ''}`}>{row.totalCumulative.toFixed(3)}{row.exceedsContract && <AlertTriangle size={12} className="inline ml-1" />}</td>
+                    <td className="p-4 text-right text-gray-400">{row.remaining.toFixed(3)}</td>
+                    <td className="p-4 text-right font-bold">{row.unitPrice ? formatCurrency(row.thisPeriodAmount) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+              {activeCatalog && (
+                <tfoot>
+                  <tr className="bg-gray-900 text-white font-black text-sm">
+                    <td colSpan={6} className="p-4 text-right uppercase">{t('thisPeriod')} / {t('totalCumulative')}</td>
+                    <td colSpan={2} className="p-4 text-right">{formatCurrency(totals.thisPeriod)} / {formatCurrency(totals.cumulative)}</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const MAX_LOGO_BYTES = 200 * 1024;
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 * 1024 ? `${(bytes / 1024 ** 3).toFixed(1)} GB`
+    : bytes >= 1024 * 1024 ? `${(bytes / 1024 ** 2).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+const SettingsView = ({ settings, setSettings, mappingTemplates, onDeleteTemplate, customRules, onAddRules, onDeleteRule, catalogs, onAddCatalog, onDeleteCatalog, onExportWorkspace, onRestore, getStorageUsage, onClear, onInfo, t, SectionHeader }: any) => {
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  useEffect(() => { getStorageUsage().then(setStorageUsage).catch(console.error); }, [catalogs, customRules, mappingTemplates]);
   const [success, setSuccess] = useState(false);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const aiConfig: AIProviderConfig = settings.aiProvider || DEFAULT_AI_PROVIDER;
+  const updateAiConfig = (patch: Partial<AIProviderConfig>) => setSettings({ ...settings, aiProvider: { ...aiConfig, ...patch } });
+  const logoInputRef = useRef<HTMLInputElement>(null);
   const save = () => { setSuccess(true); setTimeout(() => setSuccess(false), 2000); };
+  const catalogInputRef = useRef<HTMLInputElement>(null);
+  const [catalogYear, setCatalogYear] = useState(new Date().getFullYear());
+  const [ruleText, setRuleText] = useState('');
+  const [ruleError, setRuleError] = useState<string | null>(null);
+
+  const addRules = () => {
+    try {
+      onAddRules(parseRuleDefinitions(ruleText, customRules.map((r: RuleDefinition) => r.id)));
+      setRuleText('');
+      setRuleError(null);
+    } catch (err: any) {
+      setRuleError(err.message);
+    }
+  };
+
+  const handleCatalogUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const workbook = XLSX.read(new Uint8Array(event.target?.result as ArrayBuffer), { type: 'array' });
+        const rows = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1 }) as any[][];
+        const entries = parseCatalogRows(rows);
+        onAddCatalog({ id: Date.now().toString(), name: file.name.replace(/\.[^.]+$/, ''), year: catalogYear, importedAt: new Date().toISOString(), entries });
+      } catch (err: any) {
+        console.error(err);
+        alert(err.message);
+      }
+    };
+    reader.readAsArrayBuffer(file);
+    e.target.value = '';
+  };
+
+  // Logo ayarlarla birlikte her değişiklikte yeniden yazıldığından boyutu sınırlıdır.
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; if (!file) return;
+    e.target.value = '';
+    if (file.size > MAX_LOGO_BYTES) { alert(t('logoTooLarge')); return; }
+    const reader = new FileReader();
+    reader.onload = (event) => setSettings({ ...settings, logoDataUrl: event.target?.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleBackupUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        onRestore(parseBackup(event.target?.result as string));
+      } catch (err: any) {
+        console.error(err);
+        alert(err.message);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
   return (
     <div className="max-w-2xl mx-auto space-y-8">
       <SectionHeader title={t('settings')} onInfo={onInfo} />
       <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
         <h3 className="text-lg font-bold flex items-center gap-2"><User className="text-blue-600" size={20}/> Mühendislik Profili</h3>
         <div><label className="text-[10px] font-bold text-gray-400 uppercase">Kuruluş / Şirket</label><input value={settings.orgName} onChange={e => setSettings({...settings, orgName: e.target.value})} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold" /></div>
+        <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('engineerName')}</label><input value={settings.engineerName || ''} onChange={e => setSettings({...settings, engineerName: e.target.value})} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold" /></div>
+        <div>
+          <label className="text-[10px] font-bold text-gray-400 uppercase">{t('reportLogo')}</label>
+          <div className="mt-1 flex items-center gap-3">
+            {settings.logoDataUrl && <img src={settings.logoDataUrl} alt="" className="h-12 max-w-[160px] object-contain bg-gray-50 rounded-xl p-1" />}
+            <button onClick={() => logoInputRef.current?.click()} className="px-4 py-3 bg-blue-50 text-blue-600 rounded-xl font-bold flex items-center gap-2 hover:bg-blue-100"><Upload size={18}/> {t('uploadLogo')}</button>
+            {settings.logoDataUrl && <button onClick={() => setSettings({...settings, logoDataUrl: undefined})} className="p-2 text-gray-300 hover:text-red-500"><Trash2 size={16}/></button>}
+            <input type="file" ref={logoInputRef} className="hidden" onChange={handleLogoUpload} accept="image/png,image/jpeg,image/svg+xml" />
+          </div>
+        </div>
         <div><label className="text-[10px] font-bold text-gray-400 uppercase">Tercih Edilen Standart</label><select value={settings.preferredStandard} onChange={e => setSettings({...settings, preferredStandard: e.target.value})} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold"><option>TS 500</option><option>Eurocode 2</option><option>ACI 318</option></select></div>
         <button onClick={save} className="w-full py-4 bg-gray-900 text-white rounded-xl font-black flex items-center justify-center gap-2 hover:bg-black transition-all">{success ? <CheckCircle size={20} className="text-green-400"/> : <ShieldCheck size={20}/>} {t('saveSettings')}</button>
       </div>
+      <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+        <h3 className="text-lg font-bold flex items-center gap-2"><Cpu className="text-blue-600" size={20}/> {t('aiProvider')}</h3>
+        <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('aiProviderKind')}</label><select value={aiConfig.kind} onChange={e => updateAiConfig({ kind: e.target.value as AIProviderKind })} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold"><option value="proxy">{t('aiProviderProxy')}</option><option value="gemini">Google Gemini</option><option value="openai">{t('aiProviderOpenAI')}</option><option value="mock">{t('aiProviderMock')}</option></select></div>
+        {(aiConfig.kind === 'openai' || aiConfig.kind === 'proxy') && <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('aiEndpoint')}</label><input value={aiConfig.endpoint || ''} onChange={e => updateAiConfig({ endpoint: e.target.value })} placeholder={aiConfig.kind === 'proxy' ? DEFAULT_PROXY_ENDPOINT : 'http://192.168.1.20:8000/v1'} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-mono text-sm" /></div>}
+        {aiConfig.kind !== 'mock' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {aiConfig.kind === 'openai' && <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('aiContextTokens')}</label><input type="number" min={1024} step={1024} value={aiConfig.contextTokens || ''} onChange={e => updateAiConfig({ contextTokens: Number(e.target.value) || undefined })} placeholder={String(DEFAULT_OPENAI_CONTEXT_TOKENS)} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-mono text-sm" /></div>}
+            {aiConfig.kind !== 'proxy' && <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t('aiModel')}</label><input value={aiConfig.model || ''} onChange={e => updateAiConfig({ model: e.target.value })} placeholder={t('aiModelDefault')} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-mono text-sm" /></div>}
+            <div><label className="text-[10px] font-bold text-gray-400 uppercase">{t(aiConfig.kind === 'proxy' ? 'aiAccessToken' : 'aiApiKey')}</label><input type="password" value={aiConfig.apiKey || ''} onChange={e => updateAiConfig({ apiKey: e.target.value })} placeholder={aiConfig.kind === 'gemini' ? t('aiApiKeyRequired') : t('aiApiKeyOptional')} className="w-full mt-1 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-mono text-sm" /></div>
+          </div>
+        )}
+        <p className="text-sm text-gray-500">{t(aiConfig.kind === 'mock' ? 'aiMockHint' : aiConfig.kind === 'proxy' ? 'aiProxyHint' : 'aiProviderHint')}</p>
+      </div>
+      <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+        <h3 className="text-lg font-bold flex items-center gap-2"><FileSpreadsheet className="text-blue-600" size={20}/> {t('priceCatalogs')}</h3>
+        <div className="flex gap-3">
+          <input type="number" value={catalogYear} onChange={e => setCatalogYear(parseInt(e.target.value) || new Date().getFullYear())} className="w-28 px-4 py-3 bg-gray-50 rounded-xl outline-none focus:ring-2 font-bold" />
+          <button onClick={() => catalogInputRef.current?.click()} className="flex-1 py-3 bg-blue-50 text-blue-600 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-blue-100"><Upload size={18}/> {t('importCatalog')}</button>
+          <input type="file" ref={catalogInputRef} className="hidden" onChange={handleCatalogUpload} accept=".xlsx,.xls,.csv" />
+        </div>
+        <div className="space-y-2">
+          {catalogs.map((c: PriceCatalog) => (
+            <div key={c.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+              <div><span className="font-black text-blue-600 mr-2">{c.year}</span><span className="font-bold">{c.name}</span><span className="text-xs text-gray-400 ml-2">{c.entries.length} poz</span></div>
+              <button onClick={() => onDeleteCatalog(c.id)} className="p-2 text-gray-300 hover:text-red-500"><Trash2 size={16}/></button>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+        <h3 className="text-lg font-bold flex items-center gap-2"><SlidersHorizontal className="text-blue-600" size={20}/> {t('customRules')}</h3>
+        <p className="text-sm text-gray-500">{t('customRulesHint')}</p>
+        <textarea value={ruleText} onChange={e => setRuleText(e.target.value)} rows={8} placeholder={RULE_EXAMPLE} className="w-full font-mono text-xs p-4 bg-gray-50 rounded-xl outline-none focus:ring-2" />
+        {ruleError && <pre className="text-xs text-red-600 bg-red-50 p-3 rounded-xl whitespace-pre-wrap">{ruleError}</pre>}
+        <button onClick={addRules} disabled={!ruleText.trim()} className="w-full py-3 bg-blue-50 text-blue-600 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-blue-100 disabled:opacity-50"><Plus size={18}/> {t('addRules')}</button>
+        <div className="space-y-2">
+          {customRules.map((r: RuleDefinition) => (
+            <div key={r.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+              <div><span className="font-mono text-xs font-bold mr-2">{r.id}</span><span className="text-sm text-gray-500">{r.description}</span></div>
+              <button onClick={() => onDeleteRule(r.id)} className="p-2 text-gray-300 hover:text-red-500"><Trash2 size={16}/></button>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-4">
+        <h3 className="text-lg font-bold flex items-center gap-2"><FileSpreadsheet className="text-blue-600" size={20}/> {t('mappingTemplates')}</h3>
+        {mappingTemplates.length === 0 && <p className="text-sm text-gray-400">{t('noMappingTemplates')}</p>}
+        {mappingTemplates.map((tpl: MappingTemplate) => (
+          <div key={tpl.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+            <div className="min-w-0">
+              <div className="font-bold text-sm">{tpl.name}</div>
+              <div className="text-[10px] font-mono text-gray-400 truncate">{tpl.fingerprint.split('|').filter(Boolean).join(' · ')}</div>
+            </div>
+            <button onClick={() => onDeleteTemplate(tpl.id)} className="p-2 text-gray-300 hover:text-red-500"><Trash2 size={16}/></button>
+          </div>
+        ))}
+      </div>
+      <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+        <h3 className="text-lg font-bold flex items-center gap-2"><Save className="text-blue-600" size={20}/> {t('backup')}</h3>
+        <p className="text-sm text-gray-500">{t('backupHint')}</p>
+        {storageUsage && (
+          <div>
+            <div className="flex justify-between text-xs font-bold text-gray-400 uppercase mb-2">
+              <span className="flex items-center gap-1"><Database size={14}/> {t('storageUsage')} ({storageUsage.backend === 'indexedDB' ? 'IndexedDB' : 'localStorage'})</span>
+              <span>{formatBytes(storageUsage.usage)}{storageUsage.quota ? ` / ${formatBytes(storageUsage.quota)}` : ''}</span>
+            </div>
+            {storageUsage.quota ? (
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden"><div className={`h-full rounded-full ${storageUsage.usage / storageUsage.quota > 0.8 ? 'bg-red-500' : 'bg-blue-600'}`} style={{ width: `${Math.min(100, Math.max(1, storageUsage.usage / storageUsage.quota * 100))}%` }} /></div>
+            ) : null}
+          </div>
+        )}
+        <div className="flex gap-3">
+          <button onClick={onExportWorkspace} className="flex-1 py-3 bg-gray-900 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-black"><Download size={18}/> {t('exportWorkspace')}</button>
+          <button onClick={() => backupInputRef.current?.click()} className="flex-1 py-3 bg-blue-50 text-blue-600 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-blue-100"><Upload size={18}/> {t('restoreBackup')}</button>
+          <input type="file" ref={backupInputRef} className="hidden" onChange={handleBackupUpload} accept={`${BACKUP_EXTENSION},.json`} />
+        </div>
+      </div>
       <div className="bg-red-50 p-8 rounded-3xl border border-red-100"><h3 className="text-lg font-bold text-red-700 mb-2 flex items-center gap-2"><AlertTriangle size={20}/> {t('dangerZone')}</h3><p className="text-red-600/70 text-sm mb-6">Tüm projeler ve hakediş verileri kalıcı olarak silinecektir.</p><button onClick={onClear} className="bg-red-600 text-white px-6 py-2 rounded-xl font-bold shadow-lg shadow-red-600/20">{t('clearData')}</button></div>
     </div>
   );
@@ -0,0 +1,146 @@
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { analyzeBatch, analyzeExcelStructure, summarizeAnalyses } from '../services/aiService';
+import { AIProvider, createGeminiProvider, createMockProvider } from '../services/aiProvider';
+import { createRateLimiter } from './rateLimiter';
+
+/**
+ * AI VEKİL SUNUCUSU
+ * Kolon eşleştirme ve uzman analizini (kalem grubu başına bir istek) HTTP uç noktaları olarak sunar; API anahtarı yalnızca sunucuda tutulur.
+ * Kullanıcı başına istek ve gövde boyutu sınırları uygulanır. Ağ kullanmayan sahte model yalnızca --stub ile
+ * (npm run server:stub) seçilir; aksi halde GEMINI_API_KEY zorunludur ve yoksa sunucu hata vererek kapanır.
+ *
+ *   GEMINI_API_KEY          Gemini anahtarı
+ *   AI_MODEL                Varsayılan model yerine kullanılacak model
+ *   AI_PROXY_PORT           Dinlenecek port (varsayılan 8787)
+ *   AI_PROXY_TOKENS         "kullanici:token" çiftleri (virgülle); tanımlıysa her istekte Bearer token zorunludur
+ *   AI_PROXY_RATE_LIMIT     Kullanıcı başına dakikalık istek sınırı (varsayılan 20)
+ *   AI_PROXY_MAX_BODY_KB    İstek gövdesi sınırı (varsayılan 2048)
+ *   AI_PROXY_ALLOWED_ORIGIN Farklı kökenden erişim için izin verilen origin
+ */
+
+// Geliştirmede anahtar Vite ile aynı .env dosyalarından okunur; ortamda tanımlı değerler önceliklidir.
+['.env.local', '.env'].forEach(file => {
+  try { process.loadEnvFile(file); } catch { /* dosya yok */ }
+});
+
+const PORT = Number(process.env.AI_PROXY_PORT) || 8787;
+const RATE_LIMIT = Number(process.env.AI_PROXY_RATE_LIMIT) || 20;
+const MAX_BODY_BYTES = (Number(process.env.AI_PROXY_MAX_BODY_KB) || 2048) * 1024;
+const ALLOWED_ORIGIN = process.env.AI_PROXY_ALLOWED_ORIGIN;
+const MAX_SAMPLE_ROWS = 10;
+
+const useStub = process.argv.includes('--stub');
+// Yanlış yapılandırılmış bir kurulum sahte denetim sonuçlarıyla sağlıklı görünmemelidir.
+if (!useStub && !process.env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY tanımlı değil. Anahtarı ortamda veya .env dosyasında tanımlayın; sahte modelle denemek için "npm run server:stub" kullanın.');
+  process.exit(1);
+}
+const provider: AIProvider = useStub
+  ? createMockProvider()
+  : createGeminiProvider({ kind: 'gemini', apiKey: process.env.GEMINI_API_KEY, model: process.env.AI_MODEL });
+
+// token -> kullanıcı
+const tokens = new Map((process.env.AI_PROXY_TOKENS || '')
+  .split(',')
+  .map(pair => pair.trim().split(':'))
+  .filter(([user, token]) => user && token)
+  .map(([user, token]) => [token, user] as [string, string]));
+
+const limiter = createRateLimiter(RATE_LIMIT, 60_000);
+
+// Durum kodu taşıyan hata; diğer hatalar AI sağlayıcısından geldiği varsayılarak 502 döner.
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+const sendJson = (res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Token tanımlıysa kullanıcıyı token'dan, değilse istemci adresinden belirler.
+ */
+const identifyUser = (req: IncomingMessage): string => {
+  if (!tokens.size) return `ip:${req.socket.remoteAddress || 'unknown'}`;
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  const user = tokens.get(token);
+  if (!user) throw httpError(401, 'Geçersiz veya eksik erişim anahtarı.');
+  return user;
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > MAX_BODY_BYTES) return reject(httpError(413, `İstek gövdesi ${MAX_BODY_BYTES / 1024} KB sınırını aşıyor.`));
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(httpError(413, `İstek gövdesi ${MAX_BODY_BYTES / 1024} KB sınırını aşıyor.`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(httpError(400, 'Geçersiz JSON gövdesi.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const ROUTES: Record<string, (body: any) => Promise<any>> = {
+  '/api/ai/mapping': async ({ sample, lang }) => {
+    if (!Array.isArray(sample)) throw httpError(400, '"sample" bir dizi olmalıdır.');
+    return analyzeExcelStructure(sample.slice(0, MAX_SAMPLE_ROWS), provider, lang);
+  },
+  '/api/ai/analysis': async ({ items, results, lang }) => {
+    if (!Array.isArray(items) || !Array.isArray(results)) throw httpError(400, '"items" ve "results" dizi olmalıdır.');
+    return analyzeBatch(items, results, provider, lang);
+  },
+  '/api/ai/summary': async ({ summaries, lang }) => {
+    if (!Array.isArray(summaries)) throw httpError(400, '"summaries" bir dizi olmalıdır.');
+    return { summary: await summarizeAnalyses(summaries, provider, lang) };
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const cors: Record<string, string> = ALLOWED_ORIGIN
+    ? { 'Access-Control-Allow-Origin': ALLOWED_ORIGIN, 'Access-Control-Allow-Headers': 'Content-Type, Authorization', 'Access-Control-Allow-Methods': 'POST, GET, OPTIONS' }
+    : {};
+  const path = (req.url || '').split('?')[0];
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { ok: true, model: useStub ? 'stub' : (process.env.AI_MODEL || 'gemini') }, cors);
+      return;
+    }
+    const handler = ROUTES[path];
+    if (!handler) throw httpError(404, 'Bulunamadı.');
+    if (req.method !== 'POST') throw httpError(405, 'Yalnızca POST desteklenir.');
+
+    const user = identifyUser(req);
+    const limit = limiter.check(user);
+    if (!limit.allowed) {
+      sendJson(res, 429, { error: `İstek sınırı aşıldı. ${limit.retryAfterSeconds} sn sonra tekrar deneyin.` }, { ...cors, 'Retry-After': String(limit.retryAfterSeconds) });
+      return;
+    }
+    const result = await handler(await readJsonBody(req));
+    sendJson(res, 200, result, { ...cors, 'X-RateLimit-Remaining': String(limit.remaining) });
+  } catch (err: any) {
+    const status = err.status || 502;
+    if (!err.status) console.error(err);
+    sendJson(res, status, { error: err.message || 'AI isteği başarısız.' }, cors);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`AI vekil sunucusu :${PORT} üzerinde (${useStub ? 'sahte model' : 'Gemini'}), kullanıcı başına ${RATE_LIMIT} istek/dk`);
+});
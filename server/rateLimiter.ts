@@ -0,0 +1,37 @@
+
+/**
+ * İSTEK SINIRLAYICI
+ * Kullanıcı başına sabit pencereli sayaç; pencere dolduğunda bir sonraki pencereye kalan süre döner.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, { start: number, count: number }>();
+
+  // Süresi dolmuş pencereler bellekte birikmesin diye periyodik olarak temizlenir.
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((w, key) => { if (now - w.start >= windowMs) windows.delete(key); });
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    check: (key: string): RateLimitResult => {
+      const now = Date.now();
+      const current = windows.get(key);
+      const window = current && now - current.start < windowMs ? current : { start: now, count: 0 };
+      window.count++;
+      windows.set(key, window);
+      return {
+        allowed: window.count <= limit,
+        remaining: Math.max(0, limit - window.count),
+        retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000)
+      };
+    }
+  };
+};
@@ -0,0 +1,158 @@
+
+import { GoogleGenAI } from "@google/genai";
+import { AIAnalysis, AIProviderConfig, AIProviderKind, Language, MetrajItem, Severity, ValidationResult } from "../types";
+import { matchHeaders } from "./headerMatcher";
+
+/**
+ * AI SAĞLAYICILARI
+ * Excel eşleştirme ve uzman analizi tek bir arayüz üzerinden çalışır: AI vekil sunucusu, Gemini, OpenAI uyumlu
+ * herhangi bir uç nokta (yerel ağdaki kendi modelimiz dahil) ve test/demo için deterministik sahte sağlayıcı.
+ */
+
+export type AITask = 'mapping' | 'analysis' | 'summary';
+
+export interface AIJsonRequest {
+  task: AITask;
+  prompt: string;
+  schema: Record<string, any>; // JSON Schema
+  input: any; // İstemin üretildiği yapısal veri; sahte sağlayıcı yanıtı buradan üretir
+}
+
+export interface AIProvider {
+  kind: AIProviderKind;
+  contextTokens: number; // Modelin bağlam penceresi; analiz kalemleri buna göre gruplanır
+  generateJson: <T>(request: AIJsonRequest) => Promise<T>;
+}
+
+// API anahtarı tarayıcıya gönderilmesin diye varsayılan olarak AI vekil sunucusu kullanılır (bkz. server/index.ts).
+export const DEFAULT_AI_PROVIDER: AIProviderConfig = { kind: 'proxy' };
+export const DEFAULT_PROXY_ENDPOINT = '/api/ai';
+// Yerel sunucularda bağlam penceresi çoğunlukla küçüktür; ayarlardan değiştirilebilir.
+export const DEFAULT_OPENAI_CONTEXT_TOKENS = 8192;
+const GEMINI_CONTEXT_TOKENS = 1_000_000;
+
+// Eşleştirme hız, analiz derinlik gerektirdiğinden görev bazında farklı varsayılan modeller kullanılır.
+const GEMINI_MODELS: Record<AITask, string> = {
+  mapping: "gemini-3-flash-preview",
+  analysis: "gemini-3-pro-preview",
+  summary: "gemini-3-flash-preview"
+};
+
+const parseJson = <T>(text: string | undefined): T => {
+  if (!text) throw new Error("Boş AI yanıtı");
+  // Bazı yerel modeller JSON'u kod bloğu içinde döndürür.
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  return JSON.parse(cleaned) as T;
+};
+
+// İstemciler ilk istekte oluşturulur; eksik yapılandırma ayarlar ekranını değil yalnızca AI çağrısını başarısız kılar.
+export const createGeminiProvider = (config: AIProviderConfig): AIProvider => {
+  let ai: GoogleGenAI | null = null;
+  return {
+    kind: 'gemini',
+    contextTokens: GEMINI_CONTEXT_TOKENS,
+    generateJson: async <T>({ task, prompt, schema }: AIJsonRequest) => {
+      if (!config.apiKey) throw new Error("Gemini için API anahtarı girilmedi; anahtarı sunucuda tutmak için AI vekil sunucusunu kullanın.");
+      ai ||= new GoogleGenAI({ apiKey: config.apiKey });
+      const response = await ai.models.generateContent({
+        model: config.model || GEMINI_MODELS[task],
+        contents: prompt,
+        config: { responseMimeType: "application/json", responseJsonSchema: schema }
+      });
+      return parseJson<T>(response.text);
+    }
+  };
+};
+
+/**
+ * OpenAI Chat Completions sözleşmesini uygulayan sunucular (vLLM, llama.cpp, Ollama, LM Studio vb.). Şema desteği
+ * sunucudan sunucuya değiştiğinden yalnızca JSON modu istenir ve şema isteme eklenir.
+ */
+export const createOpenAICompatibleProvider = (config: AIProviderConfig): AIProvider => ({
+  kind: 'openai',
+  contextTokens: config.contextTokens || DEFAULT_OPENAI_CONTEXT_TOKENS,
+  generateJson: async <T>({ prompt, schema }: AIJsonRequest) => {
+    if (!config.endpoint) throw new Error("OpenAI uyumlu sağlayıcı için uç nokta adresi gerekli.");
+    const response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}) },
+      body: JSON.stringify({
+        model: config.model || 'default',
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: `Respond only with a JSON object that matches this JSON Schema:\n${JSON.stringify(schema)}` },
+          { role: 'user', content: prompt }
+        ]
+      })
+    });
+    if (!response.ok) throw new Error(`AI sunucusu hata döndürdü (${response.status}): ${await response.text()}`);
+    const data = await response.json();
+    return parseJson<T>(data.choices?.[0]?.message?.content);
+  }
+});
+
+/**
+ * AI vekil sunucusu: istem ve model sunucuda çalışır, tarayıcı yalnızca yapısal veriyi gönderir. Anahtar alanı
+ * sunucuda kullanıcı tanımlıysa erişim token'ı olarak iletilir.
+ */
+export const createProxyProvider = (config: AIProviderConfig): AIProvider => ({
+  kind: 'proxy',
+  contextTokens: GEMINI_CONTEXT_TOKENS, // Vekil sunucu Gemini kullanır
+  generateJson: async <T>({ task, input }: AIJsonRequest) => {
+    const response = await fetch(`${(config.endpoint || DEFAULT_PROXY_ENDPOINT).replace(/\/+$/, '')}/${task}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}) },
+      body: JSON.stringify(input)
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `AI vekil sunucusu hata döndürdü (${response.status}).`);
+    return data as T;
+  }
+});
+
+const SEVERITY_WEIGHTS: Record<Severity, number> = { [Severity.CRITICAL]: 20, [Severity.WARNING]: 8, [Severity.INFO]: 2 };
+
+const mockAnalysis = ({ items, results, lang }: { items: MetrajItem[], results: ValidationResult[], lang: Language }): AIAnalysis => {
+  const byRule = new Map<string, ValidationResult[]>();
+  results.forEach(r => byRule.set(r.ruleId, [...(byRule.get(r.ruleId) || []), r]));
+  const riskScore = Math.min(100, results.reduce((sum, r) => sum + (SEVERITY_WEIGHTS[r.severity] || 0), 0));
+  return {
+    riskScore,
+    summary: lang === 'TR'
+      ? `${items.length} kalem incelendi, ${byRule.size} kuralda ${results.length} bulgu var.`
+      : `${items.length} items reviewed, ${results.length} findings across ${byRule.size} rules.`,
+    findings: [...byRule.entries()].map(([ruleId, group]) => ({
+      title: ruleId,
+      explanation: group.length > 1 ? `${group[0].message} (+${group.length - 1})` : group[0].message,
+      standard: group[0].standardReference,
+      severity: group[0].severity,
+      itemIds: [...new Set(group.flatMap(r => [r.itemId, ...(r.relatedItemIds || [])]))]
+    }))
+  };
+};
+
+/**
+ * Ağ kullanmayan deterministik sağlayıcı: eşleştirmeyi yerel başlık eşleştiriciyle, analizi kural bulgularından üretir.
+ */
+export const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+  contextTokens: GEMINI_CONTEXT_TOKENS,
+  generateJson: async <T>({ task, input }: AIJsonRequest) => {
+    if (task === 'mapping') {
+      const { mapping, startRow } = matchHeaders(input.sample);
+      return { mapping, startRow } as T;
+    }
+    if (task === 'summary') return { summary: input.summaries.join(' ') } as T;
+    return mockAnalysis(input) as T;
+  }
+});
+
+export const createAIProvider = (config: AIProviderConfig = DEFAULT_AI_PROVIDER): AIProvider => {
+  switch (config.kind) {
+    case 'gemini': return createGeminiProvider(config);
+    case 'openai': return createOpenAICompatibleProvider(config);
+    case 'mock': return createMockProvider();
+    default: return createProxyProvider(config);
+  }
+};
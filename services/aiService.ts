@@ -0,0 +1,289 @@
+
+import { MetrajItem, ValidationResult, AIAnalysis, AIFinding, Language } from "../types";
+import { AIProvider } from "./aiProvider";
+
+const MAPPING_FIELDS = ['pozNumber', 'description', 'unit', 'multiplier', 'x', 'y', 'z', 'area', 'volume', 'unitWeight', 'count', 'totalQuantity', 'category', 'location'];
+
+const MAPPING_SCHEMA = {
+  type: "object",
+  properties: {
+    mapping: {
+      type: "object",
+      properties: Object.fromEntries(MAPPING_FIELDS.map(field => [field, { type: "number" }]))
+    },
+    startRow: { type: "number" }
+  },
+  required: ["mapping", "startRow"]
+};
+
+const ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    riskScore: { type: "number" },
+    summary: { type: "string" },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          explanation: { type: "string" },
+          standard: { type: "string" },
+          severity: { type: "string", enum: ["CRITICAL", "WARNING", "INFO"] },
+          itemIds: { type: "array", items: { type: "string" } }
+        },
+        required: ["title", "explanation", "standard", "severity", "itemIds"]
+      }
+    }
+  },
+  required: ["riskScore", "summary", "findings"]
+};
+
+export const analyzeExcelStructure = async (
+  sampleData: any[][],
+  provider: AIProvider,
+  lang: Language = 'TR'
+): Promise<{ mapping: Record<string, number>, startRow: number }> => {
+  const prompt = `
+    Analyze this construction quantity survey (metraj) spreadsheet data (first 10 rows).
+    Identify the column index (0, 1, 2...) for each field.
+    
+    CRITICAL FIELDS TO MAP:
+    - pozNumber: (Poz No, Kalem No, Poz)
+    - description: (Açıklama, İşin Tanımı, İmalat Tanımı)
+    - unit: (Birim, Ölçü Birimi)
+    - multiplier: (Benzer, Çarpan, Adet/Benzer)
+    - x: (Boyut X, En, Genişlik)
+    - y: (Boyut Y, Boy, Uzunluk)
+    - z: (Boyut Z, Yükseklik, Derinlik, Kalınlık)
+    - area: (Alan, m2, Yüzey Alanı)
+    - volume: (Hacim, m3, Küp)
+    - unitWeight: (Birim Ağırlık, kg/m2, kg/m, Ağırlık)
+    - count: (Adet, Sayı)
+    - totalQuantity: (Manuel Miktar, Toplam, Metraj, Miktar, Hakediş Miktarı, Sonuç)
+    - category: (Kategori, İmalat Grubu, İş Grubu)
+    - location: (Konum, Mahal, Blok/Kat, Yapı Elemanı)
+
+    Data (Sample): ${JSON.stringify(sampleData)}
+    
+    Rules:
+    1. Look for headers in the first 10 rows. Return the startRow where actual numeric data begins.
+    2. Map "totalQuantity" to the column that contains the final manually entered metraj result.
+    3. Return -1 for any field not found.
+    4. RESPOND FAST.
+  `;
+
+  try {
+    return await provider.generateJson({ task: 'mapping', prompt, schema: MAPPING_SCHEMA, input: { sample: sampleData } });
+  } catch (error) {
+    // Sabit kolon sırasına düşmek yerine hata çağırana iletilir; içe aktarım yerel eşleştiricinin sonucunu kullanır.
+    console.error("AI Mapping failed:", error);
+    throw error;
+  }
+};
+
+const SUMMARY_SCHEMA = {
+  type: "object",
+  properties: { summary: { type: "string" } },
+  required: ["summary"]
+};
+
+// Model talimatlarının ve yanıtın kapladığı pay; kalan bütçe kalemlere ayrılır.
+const CONTEXT_SHARE_FOR_DATA = 0.5;
+// Çok büyük bağlamlı modellerde de yanıt kalitesi için grup boyutu sınırlanır.
+const MAX_BATCH_TOKENS = 24000;
+// Türkçe metin ve JSON için temkinli karakter/token oranı.
+const CHARS_PER_TOKEN = 3;
+const ANALYSIS_CONCURRENCY = 3;
+
+const SEVERITY_RANK: Record<string, number> = { CRITICAL: 3, WARNING: 2, INFO: 1 };
+
+export interface AnalysisProgress {
+  done: number;
+  total: number;
+}
+
+// Modelin miktarları denetleyebilmesi için gereken tüm alanlar; kısa anahtarlar bağlamda yer kazandırır.
+const compactItem = (item: MetrajItem) => ({
+  id: item.id,
+  poz: item.pozNumber,
+  desc: item.description,
+  unit: item.unit,
+  cat: item.category,
+  x: item.x, y: item.y, z: item.z,
+  mult: item.multiplier,
+  count: item.count,
+  unitWeight: item.unitWeight || undefined,
+  manual: item.totalQuantity,
+  calc: item.calculatedQuantity,
+  loc: item.location ? [item.location.block, item.location.floor, item.location.element].filter(Boolean).join('/') : undefined,
+  deductionOf: item.isDeduction ? item.parentId : undefined,
+  rebar: item.rebar ? `Ø${item.rebar.diameter} ${item.rebar.shape} x${item.rebar.barCount}` : undefined
+});
+
+const compactResult = (r: ValidationResult) => ({
+  rule: r.ruleId,
+  itemId: r.itemId,
+  severity: r.severity,
+  message: r.message,
+  related: r.relatedItemIds
+});
+
+const resultsForItems = (results: ValidationResult[], ids: Set<string>) =>
+  results.filter(r => ids.has(r.itemId) || r.relatedItemIds?.some(id => ids.has(id)));
+
+/**
+ * Kalemleri (ve ilgili kural bulgularını) modelin bağlam penceresine sığacak gruplara böler.
+ */
+export const chunkItems = (items: MetrajItem[], results: ValidationResult[], contextTokens: number): MetrajItem[][] => {
+  const budget = Math.min(MAX_BATCH_TOKENS, contextTokens * CONTEXT_SHARE_FOR_DATA) * CHARS_PER_TOKEN;
+  const resultSize = new Map<string, number>();
+  results.forEach(r => resultSize.set(r.itemId, (resultSize.get(r.itemId) || 0) + JSON.stringify(compactResult(r)).length));
+
+  const batches: MetrajItem[][] = [];
+  let current: MetrajItem[] = [];
+  let used = 0;
+  items.forEach(item => {
+    const size = JSON.stringify(compactItem(item)).length + (resultSize.get(item.id) || 0);
+    if (current.length && used + size > budget) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += size;
+  });
+  if (current.length) batches.push(current);
+  return batches;
+};
+
+/**
+ * Tek bir kalem grubunu analiz eder; hata çağırana iletilir.
+ */
+export const analyzeBatch = async (
+  items: MetrajItem[],
+  rulesResults: ValidationResult[],
+  provider: AIProvider,
+  lang: Language = 'TR'
+): Promise<AIAnalysis> => {
+  const prompt = `
+    You are a senior quantity surveyor auditing a construction metraj (bill of quantities). Respond in ${lang === 'TR' ? 'Turkish' : 'English'}.
+    Review every item: check that x, y, z, mult (multiplier) and count are plausible for the unit and category,
+    that "manual" (manually entered total) agrees with "calc" (computed from dimensions), that deductions
+    (deductionOf = parent item id) make sense, and that related items (concrete, formwork, rebar) are consistent.
+    Use the rule-engine findings as hints but report your own engineering judgement. riskScore is 0-100.
+    For every finding list in itemIds the exact "id" values of the affected items (empty if it concerns the whole project).
+
+    ITEMS: ${JSON.stringify(items.map(compactItem))}
+    RULE FINDINGS: ${JSON.stringify(rulesResults.map(compactResult))}
+  `;
+  return provider.generateJson<AIAnalysis>({ task: 'analysis', prompt, schema: ANALYSIS_SCHEMA, input: { items, results: rulesResults, lang } });
+};
+
+/**
+ * Grup özetlerini tek bir proje özetinde birleştirir.
+ */
+export const summarizeAnalyses = async (summaries: string[], provider: AIProvider, lang: Language = 'TR'): Promise<string> => {
+  const prompt = `
+    Combine these partial audit summaries of one construction project (each covers a different group of items)
+    into a single concise executive summary. Respond in ${lang === 'TR' ? 'Turkish' : 'English'}.
+
+    ${summaries.map((summary, i) => `PART ${i + 1}: ${summary}`).join('\n')}
+  `;
+  const { summary } = await provider.generateJson<{ summary: string }>({ task: 'summary', prompt, schema: SUMMARY_SCHEMA, input: { summaries, lang } });
+  return summary;
+};
+
+const normalizeTitle = (text: string) => String(text || '').trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
+
+/**
+ * Grup sonuçlarını birleştirir: risk puanı kalem sayısıyla ağırlıklandırılır, aynı başlık ve standarda sahip
+ * bulgular tekilleştirilerek en yüksek önem derecesi korunur.
+ */
+export const mergeAnalyses = (parts: { analysis: AIAnalysis, itemCount: number }[]): Omit<AIAnalysis, 'summary'> => {
+  const totalItems = parts.reduce((sum, p) => sum + p.itemCount, 0) || 1;
+  const findings = new Map<string, AIFinding>();
+  parts.forEach(({ analysis }) => (analysis.findings || []).forEach(f => {
+    const key = `${normalizeTitle(f.title)}#${normalizeTitle(f.standard)}`;
+    const existing = findings.get(key);
+    const kept = !existing || (SEVERITY_RANK[f.severity] || 0) > (SEVERITY_RANK[existing.severity] || 0) ? f : existing;
+    // Aynı bulgu farklı gruplarda farklı kalemler için raporlanabilir; kalemler birleştirilir.
+    findings.set(key, { ...kept, itemIds: [...new Set([...(existing?.itemIds || []), ...(f.itemIds || [])])] });
+  }));
+  return {
+    riskScore: Math.round(parts.reduce((sum, p) => sum + (p.analysis.riskScore || 0) * p.itemCount, 0) / totalItems),
+    findings: [...findings.values()].sort((a, b) => (SEVERITY_RANK[b.severity] || 0) - (SEVERITY_RANK[a.severity] || 0))
+  };
+};
+
+/**
+ * Bulgulardaki kalem kimliklerini projedeki kalemlerle doğrular; modelin uydurduğu veya yanlış yazdığı kimlikler atılır.
+ */
+export const linkFindingsToItems = (findings: AIFinding[], items: MetrajItem[]): AIFinding[] => {
+  const ids = new Set(items.map(i => i.id));
+  return findings.map(f => ({ ...f, itemIds: [...new Set((Array.isArray(f.itemIds) ? f.itemIds : []).map(String))].filter(id => ids.has(id)) }));
+};
+
+const mapWithConcurrency = async <T, R>(tasks: T[], limit: number, run: (task: T) => Promise<R>): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await run(tasks[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+};
+
+/**
+ * Projenin tüm kalemlerini bağlam penceresine göre gruplayıp sınırlı eşzamanlılıkla analiz eder ve sonuçları
+ * tek bir analizde birleştirir. Başarısız gruplar özette belirtilir; hiçbir grup analiz edilemezse hata sonucu döner.
+ */
+export const getAIExpertAnalysis = async (
+  items: MetrajItem[],
+  rulesResults: ValidationResult[],
+  provider: AIProvider,
+  lang: Language = 'TR',
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AIAnalysis> => {
+  try {
+    const batches = chunkItems(items, rulesResults, provider.contextTokens);
+    let done = 0;
+    onProgress?.({ done, total: batches.length });
+    const settled = await mapWithConcurrency(batches, ANALYSIS_CONCURRENCY, async batch => {
+      try {
+        const analysis = await analyzeBatch(batch, resultsForItems(rulesResults, new Set(batch.map(i => i.id))), provider, lang);
+        return { analysis, itemCount: batch.length };
+      } finally {
+        onProgress?.({ done: ++done, total: batches.length });
+      }
+    });
+
+    const parts = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    settled.forEach(r => { if (r.status === 'rejected') console.error("AI batch failed:", r.reason); });
+    if (!parts.length) throw new Error("No batch could be analyzed");
+
+    let summary = parts[0].analysis.summary;
+    if (parts.length > 1) {
+      summary = await summarizeAnalyses(parts.map(p => p.analysis.summary), provider, lang)
+        .catch(() => parts.map(p => p.analysis.summary).join(' '));
+    }
+    const failed = batches.length - parts.length;
+    if (failed) {
+      summary += lang === 'TR'
+        ? ` (${batches.length} gruptan ${failed} tanesi analiz edilemedi.)`
+        : ` (${failed} of ${batches.length} item groups could not be analyzed.)`;
+    }
+    const merged = mergeAnalyses(parts);
+    return { ...merged, findings: linkFindingsToItems(merged.findings, items), summary };
+  } catch (error) {
+    console.error("AI analysis failed:", error);
+    return { riskScore: 0, summary: "Analysis failed", findings: [], failed: true };
+  }
+};
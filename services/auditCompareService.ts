@@ -0,0 +1,64 @@
+
+import { AuditRecord, ValidationResult } from '../types';
+import { diffItemsById, DiffEntry } from './mergeService';
+
+/**
+ * DENETİM KARŞILAŞTIRMA
+ * Aynı projenin aynı konum kapsamındaki iki denetimini, kayıtlarla saklanan kalem ve kural bulgusu anlık görüntüleri üzerinden karşılaştırır.
+ * Bulgular susturma kayıtlarındaki gibi kural + kalem kimliğiyle eşleştirilir; mesajdaki sayıların değişmesi
+ * bulguyu yeni saymaz.
+ */
+
+export interface AuditComparison {
+  base: AuditRecord; // Eski denetim
+  target: AuditRecord; // Yeni denetim
+  newFindings: ValidationResult[];
+  resolvedFindings: ValidationResult[];
+  persistingFindings: ValidationResult[];
+  items: DiffEntry[];
+}
+
+export interface RiskTrendPoint {
+  auditId: string;
+  date: string;
+  riskScore: number;
+  localScore?: number;
+}
+
+const findingKey = (r: ValidationResult) => `${r.ruleId}#${r.itemId}`;
+
+const scopeOf = (record: AuditRecord) => record.scope ?? null;
+
+// Proje + konum kapsamı; yalnızca aynı anahtarlı denetimler karşılaştırılır ve aynı eğride gösterilir.
+export const auditGroupKey = (record: AuditRecord) => JSON.stringify([record.projectId, scopeOf(record)]);
+
+// Kalem ve bulgu anlık görüntüsü olmayan eski kayıtlar karşılaştırılamaz.
+export const hasSnapshot = (record: AuditRecord) => !!record.items && !!record.validationResults;
+
+export const compareAudits = (first: AuditRecord, second: AuditRecord): AuditComparison => {
+  if (first.projectId !== second.projectId) throw new Error('Yalnızca aynı projenin denetimleri karşılaştırılabilir.');
+  if (scopeOf(first) !== scopeOf(second)) throw new Error('Farklı konum kapsamlarındaki denetimler karşılaştırılamaz; tüm proje ve konum denetimleri ayrı tutulur.');
+  const missing = [first, second].filter(r => !hasSnapshot(r));
+  if (missing.length) throw new Error(missing.map(r => `${new Date(r.date).toLocaleString('tr-TR')} tarihli denetimde kalem anlık görüntüsü yok.`).join('\n'));
+
+  const [base, target] = first.date <= second.date ? [first, second] : [second, first];
+  const before = new Map(base.validationResults!.map(r => [findingKey(r), r]));
+  const after = new Set(target.validationResults!.map(findingKey));
+  return {
+    base,
+    target,
+    newFindings: target.validationResults!.filter(r => !before.has(findingKey(r))),
+    resolvedFindings: base.validationResults!.filter(r => !after.has(findingKey(r))),
+    persistingFindings: target.validationResults!.filter(r => before.has(findingKey(r))),
+    items: diffItemsById(base.items!, target.items!).filter(e => e.kind !== 'UNCHANGED')
+  };
+};
+
+/**
+ * Projenin verilen konum kapsamındaki (null: tüm proje) denetimlerinin risk puanları, eskiden yeniye.
+ */
+export const buildRiskTrend = (history: AuditRecord[], projectId: string, scope: string | null = null): RiskTrendPoint[] =>
+  history
+    .filter(r => r.projectId === projectId && scopeOf(r) === scope)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(r => ({ auditId: r.id, date: r.date, riskScore: r.riskScore, localScore: r.localRisk?.score }));
@@ -0,0 +1,142 @@
+
+import { AuditRecord, BackupFile, BackupKind, MetrajItem, Project } from '../types';
+import { recalculateItem } from './ruleEngine';
+import { canonicalUnit } from './normalizationService';
+import { validateRuleDefinitions } from './ruleRegistry';
+
+/**
+ * YEDEKLEME VE GERİ YÜKLEME
+ * Tek proje veya tüm çalışma alanı sürüm numaralı .metraj (JSON) dosyasına yazılır. Eski sürümlerden gelen
+ * kayıtlar sırayla migrasyonlardan geçirilir; hatalı dosyalar açıklayıcı bir hatayla reddedilir.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 2;
+export const BACKUP_EXTENSION = '.metraj';
+
+type Migration<T> = (record: T) => T;
+
+// Anahtar: kaydın geçirildiği hedef sürüm.
+const PROJECT_MIGRATIONS: Record<number, Migration<any>> = {
+  // v2: Birimler kanonik yazıma çevrilir, eksik çarpan/adet 1 kabul edilir ve türetilmiş alanlar yeniden hesaplanır.
+  2: (project) => ({
+    ...project,
+    items: (project.items || []).map((item: any) => recalculateItem({
+      ...item,
+      unit: canonicalUnit(item.unit) || item.unit || 'm3',
+      multiplier: item.multiplier || 1,
+      count: item.count || 1,
+      category: item.category || 'Concrete'
+    } as MetrajItem))
+  })
+};
+
+const AUDIT_MIGRATIONS: Record<number, Migration<any>> = {
+  // v2: Risk puanı kayıt üzerinde zorunlu alan oldu.
+  2: (record) => ({ ...record, riskScore: record.riskScore ?? record.analysis?.riskScore ?? 0 })
+};
+
+const migrate = <T extends { schemaVersion?: number }>(record: T, migrations: Record<number, Migration<any>>, label: string): T => {
+  const from = record.schemaVersion ?? 1;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`${label} daha yeni bir uygulama sürümüyle (şema v${from}) oluşturulmuş. Uygulamayı güncelleyin.`);
+  }
+  let result: any = record;
+  for (let version = from + 1; version <= CURRENT_SCHEMA_VERSION; version++) {
+    result = migrations[version] ? migrations[version](result) : result;
+  }
+  return { ...result, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+export const migrateProject = (project: Project): Project => migrate(project, PROJECT_MIGRATIONS, `"${project.name}" projesi`);
+
+export const migrateAuditRecord = (record: AuditRecord): AuditRecord => migrate(record, AUDIT_MIGRATIONS, 'Denetim kaydı');
+
+const isNumberLike = (value: any) => value === undefined || value === null || typeof value === 'number';
+
+const validateProject = (project: any, path: string, errors: string[]) => {
+  if (!project || typeof project !== 'object') {
+    errors.push(`${path}: proje bir nesne olmalıdır.`);
+    return;
+  }
+  if (typeof project.id !== 'string' || !project.id) errors.push(`${path}: "id" eksik.`);
+  if (typeof project.name !== 'string') errors.push(`${path}: "name" eksik.`);
+  if (!Array.isArray(project.items)) {
+    errors.push(`${path}: "items" bir dizi olmalıdır.`);
+    return;
+  }
+  project.items.forEach((item: any, i: number) => {
+    const itemPath = `${path}.items[${i}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push(`${itemPath}: kalem bir nesne olmalıdır.`);
+      return;
+    }
+    if (typeof item.id !== 'string' || !item.id) errors.push(`${itemPath}: "id" eksik.`);
+    ['x', 'y', 'z', 'multiplier', 'count', 'unitWeight', 'totalQuantity'].forEach(field => {
+      if (!isNumberLike(item[field])) errors.push(`${itemPath}: "${field}" sayı olmalıdır.`);
+    });
+  });
+};
+
+/**
+ * Yedek dosyası içeriğini doğrular ve kayıtları güncel şemaya taşır. Hatalar tek bir Error mesajında listelenir.
+ */
+export const parseBackup = (text: string): BackupFile => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Dosya geçerli bir JSON değil.');
+  }
+  if (!raw || raw.format !== 'metraj-backup') throw new Error('Bu dosya bir .metraj yedeği değil.');
+  if (typeof raw.schemaVersion !== 'number') throw new Error('Yedek dosyasında şema sürümü eksik.');
+  if (raw.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Yedek daha yeni bir uygulama sürümüyle (şema v${raw.schemaVersion}) oluşturulmuş. Uygulamayı güncelleyin.`);
+  }
+  if (raw.kind !== 'project' && raw.kind !== 'workspace') throw new Error('Yedek türü "project" veya "workspace" olmalıdır.');
+
+  const errors: string[] = [];
+  if (!Array.isArray(raw.projects)) errors.push('"projects" bir dizi olmalıdır.');
+  else raw.projects.forEach((p: any, i: number) => validateProject(p, `projects[${i}]`, errors));
+  if (raw.auditHistory !== undefined && !Array.isArray(raw.auditHistory)) errors.push('"auditHistory" bir dizi olmalıdır.');
+  if (raw.revisions !== undefined) {
+    if (!Array.isArray(raw.revisions)) errors.push('"revisions" bir dizi olmalıdır.');
+    else raw.revisions.forEach((r: any, i: number) => {
+      if (!r || typeof r.id !== 'string' || typeof r.projectId !== 'string' || !Array.isArray(r.items)) {
+        errors.push(`revisions[${i}]: "id", "projectId" ve "items" alanları gereklidir.`);
+      }
+    });
+  }
+  if (raw.customRules !== undefined) {
+    if (!Array.isArray(raw.customRules)) errors.push('"customRules" bir dizi olmalıdır.');
+    else errors.push(...validateRuleDefinitions(raw.customRules).map(e => `customRules${e}`));
+  }
+  if (raw.kind === 'project' && Array.isArray(raw.projects) && raw.projects.length !== 1) errors.push('Proje yedeği tam olarak bir proje içermelidir.');
+  if (errors.length) throw new Error(errors.join('\n'));
+
+  return {
+    ...raw,
+    projects: raw.projects.map(migrateProject),
+    auditHistory: (raw.auditHistory || []).map(migrateAuditRecord),
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  };
+};
+
+export const createBackup = (kind: BackupKind, data: Omit<BackupFile, 'format' | 'schemaVersion' | 'kind' | 'exportedAt'>): BackupFile => ({
+  format: 'metraj-backup',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  kind,
+  exportedAt: new Date().toISOString(),
+  ...data,
+  projects: data.projects.map(p => ({ ...p, schemaVersion: CURRENT_SCHEMA_VERSION })),
+  auditHistory: data.auditHistory.map(a => ({ ...a, schemaVersion: CURRENT_SCHEMA_VERSION }))
+});
+
+export const downloadBackup = (backup: BackupFile, fileName: string) => {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName.replace(/[\\/:*?"<>|]+/g, '_')}${BACKUP_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
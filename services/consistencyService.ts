@@ -0,0 +1,148 @@
+
+import { MetrajItem, RuleContext, RuleFinding, StructuralElement } from '../types';
+import { detectElement, locationPath } from './locationService';
+import { normalizeUnitKey } from './priceCatalog';
+import { toKg } from './rebarService';
+
+/**
+ * ELEMANLAR ARASI TUTARLILIK
+ * Beton, kalıp ve donatı kalemleri açık bağlantı grubu veya Blok/Kat/Eleman konumu üzerinden ilişkilendirilir;
+ * her grupta kalıp/beton (m²/m³) ve donatı/beton (kg/m³) oranları eleman tipine göre beklenen aralıkla karşılaştırılır.
+ */
+
+export interface RatioRange {
+  min: number;
+  max: number;
+}
+
+export type ElementRanges = Partial<Record<StructuralElement, RatioRange>>;
+
+export const FORMWORK_RATIO_RANGES: ElementRanges = {
+  SLAB: { min: 3, max: 12 },
+  BEAM: { min: 4, max: 14 },
+  COLUMN: { min: 5, max: 25 },
+  WALL: { min: 4, max: 14 },
+  FOUNDATION: { min: 0.3, max: 6 },
+  STAIR: { min: 3, max: 15 }
+};
+
+export const REBAR_RATIO_RANGES: ElementRanges = {
+  SLAB: { min: 50, max: 150 },
+  BEAM: { min: 90, max: 250 },
+  COLUMN: { min: 100, max: 300 },
+  WALL: { min: 50, max: 200 },
+  FOUNDATION: { min: 40, max: 150 },
+  STAIR: { min: 60, max: 150 }
+};
+
+export interface ElementGroup {
+  key: string;
+  label: string;
+  element: StructuralElement;
+  concrete: MetrajItem[];
+  formwork: MetrajItem[];
+  rebar: MetrajItem[];
+  concreteVolume: number;
+  formworkArea: number;
+  rebarKg: number;
+}
+
+export const getItemElement = (item: MetrajItem): StructuralElement | undefined =>
+  item.location?.element || detectElement(item.description || '');
+
+const sum = (items: MetrajItem[], value: (i: MetrajItem) => number) =>
+  Number(items.reduce((total, i) => total + value(i), 0).toFixed(3));
+
+/**
+ * Kalemleri ilişkili eleman gruplarına ayırır. Açık bağlantı grubu konumdan önceliklidir; düşüm satırları
+ * ana kalemlerinin grubunu izler. Eleman tipi belirlenemeyen kalemler gruplanmaz.
+ */
+export const buildElementGroups = (items: MetrajItem[]): ElementGroup[] => {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const groups = new Map<string, ElementGroup>();
+
+  items.forEach(item => {
+    const owner = (item.isDeduction && item.parentId && byId.get(item.parentId)) || item;
+    const element = owner.linkGroup
+      ? items.filter(i => i.linkGroup === owner.linkGroup).map(getItemElement).find(Boolean) || 'OTHER'
+      : getItemElement(owner);
+    if (!element) return;
+
+    const key = owner.linkGroup ? `link:${owner.linkGroup}` : [...locationPath(owner.location).slice(0, 2), element].join('|');
+    let group = groups.get(key);
+    if (!group) {
+      const label = owner.linkGroup
+        ? `#${owner.linkGroup}`
+        : [...locationPath(owner.location).slice(0, 2).filter(Boolean), element].join(' / ');
+      group = { key, label, element, concrete: [], formwork: [], rebar: [], concreteVolume: 0, formworkArea: 0, rebarKg: 0 };
+      groups.set(key, group);
+    }
+
+    const unit = normalizeUnitKey(item.unit);
+    if (item.category === 'Concrete' && unit === 'm3') group.concrete.push(item);
+    else if (item.category === 'Formwork' && unit === 'm2') group.formwork.push(item);
+    else if (item.category === 'Reinforcement' && (unit === 'kg' || unit === 'ton')) group.rebar.push(item);
+  });
+
+  return [...groups.values()].map(group => ({
+    ...group,
+    concreteVolume: sum(group.concrete, i => i.calculatedQuantity),
+    formworkArea: sum(group.formwork, i => i.calculatedQuantity),
+    rebarKg: sum(group.rebar, toKg)
+  }));
+};
+
+const groupItemIds = (group: ElementGroup): string[] =>
+  [...group.concrete, ...group.formwork, ...group.rebar].map(i => i.id);
+
+// Bulgu, gruptaki ilk beton kalemine bağlanır; diğer kalemler ilgili kalemler olarak listelenir.
+const primaryItemId = (group: ElementGroup): string =>
+  (group.concrete.find(i => !i.isDeduction) || group.concrete[0] || group.formwork[0] || group.rebar[0]).id;
+
+const checkRatio = (
+  ctx: RuleContext,
+  defaults: ElementRanges,
+  measure: (group: ElementGroup) => number,
+  describe: (group: ElementGroup, ratio: number, range: RatioRange) => Omit<RuleFinding, 'itemId' | 'relatedItemIds'>
+): RuleFinding[] => {
+  const ranges: ElementRanges = { ...defaults, ...ctx.params.ranges };
+  return buildElementGroups(ctx.items)
+    .filter(group => group.concreteVolume > 0 && measure(group) > 0 && ranges[group.element])
+    .flatMap(group => {
+      const range = ranges[group.element]!;
+      const ratio = measure(group) / group.concreteVolume;
+      if (ratio >= range.min && ratio <= range.max) return [];
+      return [{ itemId: primaryItemId(group), relatedItemIds: groupItemIds(group), ...describe(group, ratio, range) }];
+    });
+};
+
+export const checkFormworkConcreteRatio = (ctx: RuleContext): RuleFinding[] =>
+  checkRatio(ctx, FORMWORK_RATIO_RANGES, g => g.formworkArea, (group, ratio, range) => ({
+    message: `${group.label}: kalıp/beton oranı ${ratio.toFixed(2)} m²/m³ (${group.formworkArea.toFixed(2)} m² / ${group.concreteVolume.toFixed(2)} m³). Beklenen ${range.min}-${range.max}.`,
+    standardReference: 'Elemanlar Arası Tutarlılık',
+    suggestedAction: ratio < range.min
+      ? 'Eksik kalıp yüzeyi (yan yüzler, alın kalıpları) olup olmadığını kontrol edin.'
+      : 'Kalıp alanında mükerrer yüzey veya beton metrajında eksik kalem olup olmadığını kontrol edin.'
+  }));
+
+export const checkRebarConcreteRatio = (ctx: RuleContext): RuleFinding[] =>
+  checkRatio(ctx, REBAR_RATIO_RANGES, g => g.rebarKg, (group, ratio, range) => ({
+    message: `${group.label}: donatı oranı ${ratio.toFixed(1)} kg/m³ (${group.rebarKg.toFixed(0)} kg / ${group.concreteVolume.toFixed(2)} m³). Beklenen ${range.min}-${range.max}.`,
+    standardReference: 'TS 500 / TS 708',
+    suggestedAction: ratio < range.min
+      ? 'Eksik donatı kalemi veya ton/kg birim hatası olup olmadığını kontrol edin.'
+      : 'Çubuk adedi ve boylarını kontrol edin; donatının doğru elemana bağlandığından emin olun.'
+  }));
+
+export const checkConcreteWithoutFormwork = ({ items, params }: RuleContext): RuleFinding[] => {
+  const exempt: string[] = params.exemptElements || [];
+  return buildElementGroups(items)
+    .filter(group => group.concreteVolume > 0 && group.formwork.length === 0 && !exempt.includes(group.element))
+    .map(group => ({
+      itemId: primaryItemId(group),
+      relatedItemIds: groupItemIds(group),
+      message: `${group.label}: ${group.concreteVolume.toFixed(2)} m³ beton var ancak ilişkili kalıp kalemi yok.`,
+      standardReference: 'Elemanlar Arası Tutarlılık',
+      suggestedAction: 'Kalıp metrajını ekleyin veya mevcut kalıp kalemini bu elemana bağlayın.'
+    }));
+};
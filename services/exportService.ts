@@ -0,0 +1,176 @@
+
+import * as XLSX from 'xlsx';
+import { MetrajItem, PriceCatalog, Project, Severity, ToleranceSetting, ValidationResult } from '../types';
+import { isQuantityMismatch, DEFAULT_TOLERANCES } from './ruleEngine';
+import { normalizePoz, buildCatalogIndex } from './priceCatalog';
+import { canonicalUnit } from './normalizationService';
+import { locationPath } from './locationService';
+
+/**
+ * RESMİ METRAJ CETVELİ
+ * İdareye sunulan formatta çalışma kitabı üretir: poz bazında gruplanmış cetvel ve ara toplamlar, denetlenebilir
+ * canlı Excel formülleri (alan, hacim, miktar), icmal sayfası ve denetim bulguları sayfası.
+ */
+
+export interface MetrajExportOptions {
+  orgName?: string;
+  scopeLabel?: string; // Konum filtresi uygulanmışsa başlıkta gösterilir
+  findings?: ValidationResult[];
+  catalog?: PriceCatalog | null;
+  tolerances?: Record<string, ToleranceSetting>;
+}
+
+export const CETVEL_SHEET = 'Metraj Cetveli';
+export const ICMAL_SHEET = 'İcmal';
+export const FINDINGS_SHEET = 'Denetim Bulguları';
+
+const CETVEL_HEADERS = ['Sıra No', 'Poz No', 'Tanım', 'Konum', 'Birim', 'Benzer', 'Adet', 'En (X)', 'Boy (Y)', 'Yükseklik (Z)', 'Alan', 'Hacim', 'Birim Ağırlık', 'Miktar', 'Açıklama'];
+const ICMAL_HEADERS = ['Sıra No', 'Poz No', 'Tanım', 'Birim', 'Miktar', 'Birim Fiyat', 'Tutar'];
+const FINDINGS_HEADERS = ['Sıra No', 'Kural', 'Önem', 'Poz No', 'Tanım', 'Konum', 'Bulgu', 'Standart', 'Önerilen İşlem'];
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  [Severity.CRITICAL]: 'Kritik',
+  [Severity.WARNING]: 'Uyarı',
+  [Severity.INFO]: 'Bilgi'
+};
+
+const formulaCell = (f: string, v: number) => ({ t: 'n', f, v });
+
+// Kuruluş, belge adı, proje ve tarih satırları; kolon başlıkları boş satırın ardından gelir.
+const headerBlock = (title: string, project: Project, options: MetrajExportOptions): any[][] => [
+  [options.orgName || ''],
+  [title],
+  [`Proje: ${project.name}${options.scopeLabel ? ` (${options.scopeLabel})` : ''}`],
+  [`Tarih: ${new Date().toLocaleDateString('tr-TR')}`],
+  []
+];
+
+const finishSheet = (rows: any[][], widths: number[]): XLSX.WorkSheet => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  const lastCol = widths.length - 1;
+  sheet['!merges'] = [0, 1, 2, 3].map(r => ({ s: { r, c: 0 }, e: { r, c: lastCol } }));
+  sheet['!cols'] = widths.map(wch => ({ wch }));
+  return sheet;
+};
+
+const locationLabel = (item?: MetrajItem) => locationPath(item?.location).filter(Boolean).join(' / ');
+
+/**
+ * Kalemleri ilk görüldükleri sırayla poz bazında gruplar; düşüm satırları bağlı oldukları ana kalemin hemen altına alınır.
+ */
+export const groupItemsByPoz = (items: MetrajItem[]): MetrajItem[][] => {
+  const groups = new Map<string, MetrajItem[]>();
+  items.forEach(item => {
+    const key = normalizePoz(item.pozNumber);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return [...groups.values()].map(group => {
+    const parents = group.filter(i => !i.isDeduction || !group.some(p => p.id === i.parentId));
+    return parents.flatMap(p => [p, ...group.filter(d => d.isDeduction && d.parentId === p.id)]);
+  });
+};
+
+/**
+ * Satırın miktar formülü; ruleEngine.calculateQuantity ile aynı birim hiyerarşisini izler. Donatı çizelgesinden
+ * hesaplanan kalemler formülle ifade edilemediğinden undefined döner.
+ */
+const quantityFormula = (item: MetrajItem, r: number): string | undefined => {
+  const unit = canonicalUnit(item.unit) || (item.unit || '').toLowerCase();
+  if (item.category === 'Reinforcement' && item.rebar && (unit === 'kg' || unit === 'ton')) return undefined;
+  let base: string;
+  if (unit === 'm3') base = `L${r}`;
+  else if (unit === 'm2') base = `K${r}`;
+  else if (unit === 'kg' || unit === 'ton') base = `${item.z > 0 ? `L${r}` : `K${r}`}*M${r}${unit === 'ton' ? '/1000' : ''}`;
+  else base = item.x ? `H${r}` : item.y ? `I${r}` : item.z ? `J${r}` : '1';
+  const total = `${base}*F${r}*G${r}`;
+  return `ROUND(${item.isDeduction ? `-ABS(${total})` : total},3)`;
+};
+
+/**
+ * Resmi formatta metraj çalışma kitabını oluşturur. Elle girilen miktarı hesaptan sapan kalemlerde formül yerine
+ * girilen değer yazılır ve Açıklama kolonunda hesaplanan miktar belirtilir.
+ */
+export const buildMetrajWorkbook = (project: Project, options: MetrajExportOptions = {}): XLSX.WorkBook => {
+  const tolerances = options.tolerances || DEFAULT_TOLERANCES;
+  const groups = groupItemsByPoz(project.items);
+  const cetvel = headerBlock('METRAJ CETVELİ', project, options);
+  cetvel.push(CETVEL_HEADERS);
+
+  // Poz -> cetveldeki ara toplam satırı ve değeri (icmal formülleri buraya başvurur)
+  const subtotals: { item: MetrajItem, row: number, quantity: number }[] = [];
+  let order = 0;
+  groups.forEach(group => {
+    const firstRow = cetvel.length + 1;
+    let quantity = 0;
+    group.forEach(item => {
+      const r = cetvel.length + 1;
+      const formula = quantityFormula(item, r);
+      const manual = !formula || isQuantityMismatch(item, tolerances);
+      const value = manual ? item.totalQuantity : item.calculatedQuantity;
+      const notes = [
+        item.notes,
+        item.formulas ? Object.entries(item.formulas).map(([field, f]) => `${field.toUpperCase()} = ${f}`).join('; ') : '',
+        item.rebar ? `Donatı çizelgesi: Ø${item.rebar.diameter}, ${item.rebar.barCount} adet` : '',
+        formula && manual ? `Elle girilen miktar (hesaplanan: ${item.calculatedQuantity})` : ''
+      ].filter(Boolean).join(' | ');
+      quantity += value;
+      cetvel.push([
+        item.isDeduction ? '' : ++order,
+        item.pozNumber,
+        item.isDeduction ? `(-) ${item.description}` : item.description,
+        locationLabel(item),
+        item.unit,
+        item.multiplier || 1,
+        item.count || 1,
+        item.x, item.y, item.z,
+        formulaCell(`H${r}*I${r}`, item.area),
+        formulaCell(`H${r}*I${r}*J${r}`, item.volume),
+        item.unitWeight || 0,
+        manual ? value : formulaCell(formula!, value),
+        notes
+      ]);
+    });
+    const row = cetvel.length + 1;
+    const lastRow = row - 1;
+    quantity = Number(quantity.toFixed(3));
+    cetvel.push(['', group[0].pozNumber, 'Poz Toplamı', '', group[0].unit, '', '', '', '', '', '', '', '', formulaCell(`SUBTOTAL(9,N${firstRow}:N${lastRow})`, quantity), '']);
+    subtotals.push({ item: group[0], row, quantity });
+  });
+
+  const index = buildCatalogIndex(options.catalog);
+  const icmal = headerBlock('İCMAL', project, options);
+  icmal.push(ICMAL_HEADERS);
+  const icmalFirstRow = icmal.length + 1;
+  let grandTotal = 0;
+  subtotals.forEach(({ item, row, quantity }, i) => {
+    const r = icmal.length + 1;
+    const entry = index.get(normalizePoz(item.pozNumber));
+    const amount = Number((quantity * (entry?.unitPrice || 0)).toFixed(2));
+    grandTotal += amount;
+    icmal.push([
+      i + 1,
+      item.pozNumber,
+      entry?.description || item.description,
+      entry?.unit || item.unit,
+      formulaCell(`'${CETVEL_SHEET}'!N${row}`, quantity),
+      entry ? entry.unitPrice : '',
+      formulaCell(`ROUND(E${r}*F${r},2)`, amount)
+    ]);
+  });
+  const icmalLastRow = icmal.length;
+  icmal.push(['', '', 'GENEL TOPLAM', '', '', '', formulaCell(`SUM(G${icmalFirstRow}:G${Math.max(icmalLastRow, icmalFirstRow)})`, grandTotal)]);
+
+  const itemsById = new Map(project.items.map(i => [i.id, i]));
+  const findings = headerBlock('DENETİM BULGULARI', project, options);
+  findings.push(FINDINGS_HEADERS);
+  (options.findings || []).forEach((f, i) => {
+    const item = itemsById.get(f.itemId);
+    findings.push([i + 1, f.ruleId, SEVERITY_LABELS[f.severity] || f.severity, item?.pozNumber || '', item?.description || '', locationLabel(item), f.message, f.standardReference, f.suggestedAction]);
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, finishSheet(cetvel, [7, 14, 40, 22, 7, 8, 7, 9, 9, 11, 10, 10, 12, 12, 40]), CETVEL_SHEET);
+  XLSX.utils.book_append_sheet(workbook, finishSheet(icmal, [7, 14, 50, 8, 14, 14, 16]), ICMAL_SHEET);
+  XLSX.utils.book_append_sheet(workbook, finishSheet(findings, [7, 24, 9, 14, 36, 22, 50, 20, 40]), FINDINGS_SHEET);
+  return workbook;
+};
@@ -0,0 +1,98 @@
+
+/**
+ * BOYUT İFADE DEĞERLENDİRİCİ
+ * "3.50+2*0.25" veya "(12,4-0,3)" gibi ölçü ifadelerini eval kullanmadan hesaplar.
+ * Yalnızca sayılar, + - * / ve parantezler kabul edilir; virgül ondalık ayırıcı olarak okunur.
+ */
+
+type Token = { type: 'num', value: number } | { type: 'op', value: string };
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const src = input.replace(/\s+/g, '').replace(/,/g, '.').replace(/[x×]/gi, '*');
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if ('+-*/()'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+      continue;
+    }
+    const match = /^\d*\.?\d+|^\d+\./.exec(src.slice(i));
+    if (!match) throw new Error(`Geçersiz karakter: "${ch}"`);
+    tokens.push({ type: 'num', value: parseFloat(match[0]) });
+    i += match[0].length;
+  }
+  return tokens;
+};
+
+export const evaluateExpression = (input: string): number => {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const take = (op?: string) => {
+    const token = tokens[pos];
+    if (!token || (op && (token.type !== 'op' || token.value !== op))) throw new Error('Eksik veya hatalı ifade');
+    pos++;
+    return token;
+  };
+
+  // ifade := terim (('+' | '-') terim)*
+  const expression = (): number => {
+    let value = term();
+    while (peek()?.type === 'op' && (peek().value === '+' || peek().value === '-')) {
+      value = take().value === '+' ? value + term() : value - term();
+    }
+    return value;
+  };
+
+  // terim := çarpan (('*' | '/') çarpan)*
+  const term = (): number => {
+    let value = factor();
+    while (peek()?.type === 'op' && (peek().value === '*' || peek().value === '/')) {
+      if (take().value === '*') {
+        value *= factor();
+      } else {
+        const divisor = factor();
+        if (divisor === 0) throw new Error('Sıfıra bölme');
+        value /= divisor;
+      }
+    }
+    return value;
+  };
+
+  // çarpan := sayı | '-' çarpan | '(' ifade ')'
+  const factor = (): number => {
+    const token = take();
+    if (token.type === 'num') return token.value;
+    if (token.value === '-') return -factor();
+    if (token.value === '+') return factor();
+    if (token.value === '(') {
+      const value = expression();
+      take(')');
+      return value;
+    }
+    throw new Error('Eksik veya hatalı ifade');
+  };
+
+  if (tokens.length === 0) return 0;
+  const result = expression();
+  if (pos < tokens.length) throw new Error('Eksik veya hatalı ifade');
+  return Number(result.toFixed(6));
+};
+
+// Düz bir sayı değil de formül olarak saklanması gereken girişleri ayırt eder.
+export const isFormula = (input: string): boolean =>
+  /[+*/()×x]|\d\s*-|^\s*-\s*\(/.test(String(input ?? '').trim().replace(/^-(?=\d)/, ''));
+
+/**
+ * Hücre girdisini değerlendirir. Geçersiz ifadelerde null döner.
+ */
+export const tryEvaluate = (input: string): number | null => {
+  try {
+    return evaluateExpression(input);
+  } catch {
+    return null;
+  }
+};
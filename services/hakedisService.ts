@@ -0,0 +1,119 @@
+
+import { MetrajItem, Project, PaymentPeriod, PriceCatalog, RuleContext, RuleFinding } from '../types';
+import { normalizePoz, buildCatalogIndex } from './priceCatalog';
+
+/**
+ * HAKEDİŞ MOTORU
+ * Keşif (sözleşme) miktarları proje kalemlerinden poz bazında toplanır; her dönemde yapılan
+ * imalat bu miktarlara karşı kümülatif olarak izlenir.
+ */
+
+export interface ContractLine {
+  key: string; // Normalize edilmiş poz
+  pozNumber: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  itemIds: string[];
+}
+
+// Dönem tarihleri yerel takvim günü olarak tutulur; toISOString UTC'ye çevirip günü kaydırdığından kullanılmaz.
+export const formatLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseLocalDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Yeni dönem, önceki dönemin ertesi gününden başlar ve başladığı ayın son gününde biter.
+ */
+export const nextPeriodDates = (last?: PaymentPeriod, today = new Date()): { startDate: string, endDate: string } => {
+  const start = last ? parseLocalDate(last.endDate) : today;
+  if (last) start.setDate(start.getDate() + 1);
+  const end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+  return { startDate: formatLocalDate(start), endDate: formatLocalDate(end) };
+};
+
+export interface PeriodSummaryRow extends ContractLine {
+  previousCumulative: number;
+  thisPeriod: number;
+  totalCumulative: number;
+  remaining: number;
+  unitPrice: number;
+  thisPeriodAmount: number;
+  cumulativeAmount: number;
+  exceedsContract: boolean;
+}
+
+export const getContractLines = (items: MetrajItem[]): ContractLine[] => {
+  const lines = new Map<string, ContractLine>();
+  items.forEach(item => {
+    const key = normalizePoz(item.pozNumber);
+    const line = lines.get(key) || { key, pozNumber: item.pozNumber, description: item.description, unit: item.unit, quantity: 0, itemIds: [] };
+    line.quantity += item.totalQuantity;
+    line.itemIds.push(item.id);
+    lines.set(key, line);
+  });
+  return Array.from(lines.values());
+};
+
+export const sortPeriods = (periods: PaymentPeriod[] = []): PaymentPeriod[] =>
+  [...periods].sort((a, b) => a.no - b.no);
+
+/**
+ * Seçilen dönem için önceki kümülatif / bu dönem / toplam kümülatif kolonlarını üretir.
+ */
+export const buildPeriodSummary = (
+  project: Project,
+  periodId: string,
+  catalog?: PriceCatalog | null
+): PeriodSummaryRow[] => {
+  const periods = sortPeriods(project.periods);
+  const current = periods.find(p => p.id === periodId);
+  if (!current) return [];
+  const previous = periods.filter(p => p.no < current.no);
+  const index = buildCatalogIndex(catalog);
+
+  return getContractLines(project.items).map(line => {
+    const previousCumulative = previous.reduce((sum, p) => sum + (p.quantities[line.key] || 0), 0);
+    const thisPeriod = current.quantities[line.key] || 0;
+    const totalCumulative = previousCumulative + thisPeriod;
+    const unitPrice = index.get(line.key)?.unitPrice || 0;
+    return {
+      ...line,
+      previousCumulative,
+      thisPeriod,
+      totalCumulative,
+      remaining: line.quantity - totalCumulative,
+      unitPrice,
+      thisPeriodAmount: thisPeriod * unitPrice,
+      cumulativeAmount: totalCumulative * unitPrice,
+      exceedsContract: totalCumulative - line.quantity > 0.001
+    };
+  });
+};
+
+/**
+ * Kümülatif hakediş miktarının keşif miktarını aştığı pozları bulgu olarak döndürür.
+ */
+export const checkCumulativeExceedsContract = ({ project, items, allItems }: RuleContext): RuleFinding[] => {
+  // Dönem miktarları proje geneline aittir; keşif miktarı da tüm kalemlerden hesaplanır, yalnızca kapsamdaki pozlar raporlanır.
+  const fullProject = { ...project, items: allItems };
+  const scopedIds = new Set(items.map(i => i.id));
+  const findings: RuleFinding[] = [];
+  sortPeriods(project.periods).forEach(period => {
+    buildPeriodSummary(fullProject, period.id)
+      .filter(row => row.exceedsContract && row.itemIds.some(id => scopedIds.has(id)))
+      .forEach(row => {
+        findings.push({
+          itemId: row.itemIds.find(id => scopedIds.has(id))!,
+          message: `${period.name}: kümülatif miktar (${row.totalCumulative.toFixed(3)}) keşif miktarını (${row.quantity.toFixed(3)}) aşıyor. Poz: ${row.pozNumber}`,
+          standardReference: 'Hakediş Kontrolü',
+          suggestedAction: 'Dönem miktarlarını kontrol edin veya keşif artışı için metrajı güncelleyin.'
+        });
+      });
+  });
+  return findings;
+};
@@ -0,0 +1,150 @@
+
+import { MappingSource } from '../types';
+
+/**
+ * YEREL BAŞLIK EŞLEŞTİRİCİ
+ * Excel başlıklarını Türkçe/İngilizce eş anlamlılar ve bulanık karşılaştırma ile metraj alanlarına eşler.
+ * Ağ bağlantısı gerektirmez; yalnızca güven düşük kaldığında AI eşleştirmesine başvurulur.
+ */
+
+export const MAPPING_FIELDS = [
+  'pozNumber', 'description', 'unit', 'multiplier', 'x', 'y', 'z', 'unitWeight', 'count', 'totalQuantity', 'category', 'location', 'key'
+] as const;
+
+export type MappingField = typeof MAPPING_FIELDS[number];
+
+// Eş anlamlılar normalize edilmiş biçimde (küçük harf, Türkçe karakterler sadeleştirilmiş) yazılır.
+const HEADER_SYNONYMS: Record<MappingField, string[]> = {
+  pozNumber: ['poz', 'poz no', 'poz numarasi', 'poz kodu', 'kod', 'kalem no', 'is kalemi no', 'item no', 'item code', 'code'],
+  description: ['aciklama', 'tanim', 'isin tanimi', 'imalat tanimi', 'imalatin cinsi', 'isin adi', 'description', 'work item'],
+  unit: ['birim', 'olcu birimi', 'unit', 'uom'],
+  multiplier: ['benzer', 'carpan', 'multiplier', 'factor', 'similar'],
+  x: ['x', 'en', 'genislik', 'boyut x', 'width'],
+  y: ['y', 'boy', 'uzunluk', 'boyut y', 'length'],
+  z: ['z', 'yukseklik', 'derinlik', 'kalinlik', 'boyut z', 'height', 'depth', 'thickness'],
+  unitWeight: ['birim agirlik', 'agirlik', 'kg m', 'kg m2', 'unit weight', 'weight'],
+  count: ['adet', 'sayi', 'count', 'pieces', 'pcs'],
+  totalQuantity: ['miktar', 'toplam', 'metraj', 'toplam miktar', 'hakedis miktari', 'sonuc', 'quantity', 'total', 'qty'],
+  category: ['kategori', 'imalat grubu', 'is grubu', 'category', 'group'],
+  location: ['konum', 'mahal', 'blok', 'kat', 'yapi elemani', 'location', 'zone'],
+  // Sıra numarası satır eklendikçe kaydığı için anahtar kabul edilmez.
+  key: ['anahtar', 'kalem id', 'id', 'key', 'row id', 'ref', 'referans']
+};
+
+// Eşleşme güveni hesaplanırken ağırlık verilen temel alanlar.
+const REQUIRED_FIELDS: MappingField[] = ['pozNumber', 'description', 'unit', 'totalQuantity'];
+
+const MIN_FIELD_SCORE = 0.6;
+export const LOCAL_CONFIDENCE_THRESHOLD = 0.75;
+const HEADER_SEARCH_ROWS = 15;
+
+export const normalizeHeader = (value: any): string =>
+  String(value ?? '')
+    .toLocaleLowerCase('tr')
+    .replace(/ç/g, 'c').replace(/ğ/g, 'g').replace(/ı/g, 'i').replace(/ö/g, 'o').replace(/ş/g, 's').replace(/ü/g, 'u')
+    .replace(/[³²]/g, m => (m === '³' ? '3' : '2'))
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = temp;
+    }
+  }
+  return prev[b.length];
+};
+
+/**
+ * Başlık hücresinin alana uygunluk puanı (0-1): tam eşleşme 1, kelime olarak geçme 0.8,
+ * 4 harften uzun ifadelerde yazım hatası toleranslı benzerlik.
+ */
+export const scoreHeader = (header: any, field: MappingField): number => {
+  const h = normalizeHeader(header);
+  if (!h) return 0;
+  const tokens = h.split(' ');
+  let best = 0;
+  for (const synonym of HEADER_SYNONYMS[field]) {
+    if (h === synonym) return 1;
+    const contains = synonym.includes(' ') ? h.includes(synonym) : tokens.includes(synonym);
+    if (contains) best = Math.max(best, 0.8);
+    if (synonym.length >= 4 && h.length >= 4) {
+      const similarity = 1 - levenshtein(h, synonym) / Math.max(h.length, synonym.length);
+      best = Math.max(best, similarity * 0.9);
+    }
+  }
+  return best;
+};
+
+export interface HeaderMatch {
+  mapping: Record<string, number>;
+  startRow: number;
+  confidence: number; // 0-1
+  scores: Partial<Record<MappingField, number>>;
+}
+
+// Her kolon en fazla bir alana atanır; en yüksek puanlı eşleşmeler önce yerleşir.
+const assignColumns = (header: any[]): { mapping: Record<string, number>, scores: Partial<Record<MappingField, number>> } => {
+  const candidates: { field: MappingField, col: number, score: number }[] = [];
+  header.forEach((cell, col) => MAPPING_FIELDS.forEach(field => {
+    const score = scoreHeader(cell, field);
+    if (score >= MIN_FIELD_SCORE) candidates.push({ field, col, score });
+  }));
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: Record<string, number> = Object.fromEntries(MAPPING_FIELDS.map(f => [f, -1]));
+  const scores: Partial<Record<MappingField, number>> = {};
+  const usedCols = new Set<number>();
+  candidates.forEach(({ field, col, score }) => {
+    if (mapping[field] >= 0 || usedCols.has(col)) return;
+    mapping[field] = col;
+    scores[field] = Number(score.toFixed(2));
+    usedCols.add(col);
+  });
+  return { mapping, scores };
+};
+
+const confidenceOf = (scores: Partial<Record<MappingField, number>>): number =>
+  Number((REQUIRED_FIELDS.reduce((sum, f) => sum + (scores[f] || 0), 0) / REQUIRED_FIELDS.length).toFixed(2));
+
+/**
+ * İlk satırlar arasında en çok alanla eşleşen satırı başlık kabul eder; bulunamazsa -1 döner.
+ */
+export const detectHeaderRow = (rows: any[][]): number => {
+  let bestRow = -1;
+  let bestScore = 0;
+  rows.slice(0, HEADER_SEARCH_ROWS).forEach((row, i) => {
+    const { scores } = assignColumns(row || []);
+    const total = Object.values(scores).reduce((sum, s) => sum + (s || 0), 0);
+    if (total > bestScore) {
+      bestScore = total;
+      bestRow = i;
+    }
+  });
+  return bestRow;
+};
+
+export const matchHeaders = (rows: any[][]): HeaderMatch => {
+  const headerRow = detectHeaderRow(rows);
+  if (headerRow < 0) {
+    return { mapping: Object.fromEntries(MAPPING_FIELDS.map(f => [f, -1])), startRow: 0, confidence: 0, scores: {} };
+  }
+  const { mapping, scores } = assignColumns(rows[headerRow]);
+  return { mapping, startRow: headerRow + 1, confidence: confidenceOf(scores), scores };
+};
+
+/**
+ * Başlık satırının parmak izi; aynı yüklenicinin aynı formatlı dosyaları için kayıtlı şablonu bulmakta kullanılır.
+ */
+export const headerFingerprint = (rows: any[][]): string => {
+  const headerRow = detectHeaderRow(rows);
+  return headerRow < 0 ? '' : (rows[headerRow] || []).map(normalizeHeader).join('|');
+};
+
+export const fieldSources = (mapping: Record<string, number>, source: MappingSource): Record<string, MappingSource> =>
+  Object.fromEntries(Object.entries(mapping).filter(([, col]) => col >= 0).map(([field]) => [field, source]));
@@ -0,0 +1,69 @@
+
+import { MetrajItem, ItemHistory } from '../types';
+
+const MAX_HISTORY = 100;
+// Aynı etiketli ardışık düzenlemeler (ör. bir hücreye yazarken her tuş vuruşu) tek adımda birleştirilir.
+const COALESCE_MS = 1500;
+
+export const EMPTY_HISTORY: ItemHistory = { past: [], future: [] };
+
+/**
+ * Bir değişiklikten önceki kalem listesini geçmişe ekler. Yeni bir değişiklik ileri (redo) yığınını temizler.
+ */
+export const pushHistory = (
+  history: ItemHistory = EMPTY_HISTORY,
+  before: MetrajItem[],
+  label: string
+): ItemHistory => {
+  const now = Date.now();
+  const last = history.past[history.past.length - 1];
+  if (last && last.label === label && now - last.timestamp < COALESCE_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, timestamp: now }], future: [] };
+  }
+  return {
+    past: [...history.past, { label, items: before, timestamp: now }].slice(-MAX_HISTORY),
+    future: []
+  };
+};
+
+/**
+ * Geçmişte `steps` adım geri gider. Geri alınan her adım, ileri yığınına mevcut durumla birlikte taşınır.
+ */
+export const undoHistory = (
+  history: ItemHistory = EMPTY_HISTORY,
+  current: MetrajItem[],
+  steps = 1
+): { history: ItemHistory, items: MetrajItem[] } | null => {
+  if (steps < 1 || history.past.length < steps) return null;
+  let past = history.past;
+  let future = history.future;
+  let items = current;
+  for (let i = 0; i < steps; i++) {
+    const entry = past[past.length - 1];
+    past = past.slice(0, -1);
+    future = [{ ...entry, items }, ...future];
+    items = entry.items;
+  }
+  return { history: { past, future }, items };
+};
+
+/**
+ * Geri alınmış `steps` adımı yeniden uygular.
+ */
+export const redoHistory = (
+  history: ItemHistory = EMPTY_HISTORY,
+  current: MetrajItem[],
+  steps = 1
+): { history: ItemHistory, items: MetrajItem[] } | null => {
+  if (steps < 1 || history.future.length < steps) return null;
+  let past = history.past;
+  let future = history.future;
+  let items = current;
+  for (let i = 0; i < steps; i++) {
+    const entry = future[0];
+    future = future.slice(1);
+    past = [...past, { ...entry, items }];
+    items = entry.items;
+  }
+  return { history: { past, future }, items };
+};
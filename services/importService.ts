@@ -0,0 +1,194 @@
+
+import * as XLSX from 'xlsx';
+import { MetrajItem, DimensionField, MappingSource, MappingTemplate } from '../types';
+import { recalculateItem } from './ruleEngine';
+import { isFormula, tryEvaluate } from './expressionService';
+import { detectNumberFormat, parseNumber, canonicalUnit, inferCategory, NumberFormat } from './normalizationService';
+import { parseLocationPath } from './locationService';
+import { headerFingerprint, matchHeaders, fieldSources, LOCAL_CONFIDENCE_THRESHOLD } from './headerMatcher';
+
+/**
+ * EXCEL İÇE AKTARIM
+ * Çalışma kitabındaki tüm sayfalar okunur; aynı başlık yapısına sahip sayfalar tek kolon eşleşmesini paylaşır.
+ */
+
+export interface ImportSheet {
+  name: string;
+  rows: any[][];
+  rowCount: number; // Boş olmayan satır sayısı
+  signature: string; // Başlık satırının parmak izi (bkz. headerFingerprint)
+}
+
+export interface ImportMappingGroup {
+  signature: string;
+  sheetNames: string[];
+  mapping: Record<string, number>;
+  startRow: number;
+  source: MappingSource;
+  confidence?: number; // Yerel eşleştiricinin güveni (0-1)
+  templateName?: string;
+  fieldSources: Record<string, MappingSource>;
+}
+
+export interface ImportIssue {
+  sheet: string;
+  row: number; // Excel satır numarası (1'den başlar)
+  field: string;
+  value: any;
+  message: string;
+}
+
+export interface ParsedSheet {
+  items: MetrajItem[];
+  issues: ImportIssue[];
+  numberFormats: Record<string, NumberFormat>; // Alan -> tespit edilen sayı biçimi
+}
+
+const NUMERIC_FIELDS = ['x', 'y', 'z', 'multiplier', 'unitWeight', 'count', 'totalQuantity'];
+
+const isEmptyRow = (row: any[]) => !row || row.every(cell => cell === undefined || cell === null || String(cell).trim() === '');
+
+export const readWorkbookSheets = (data: Uint8Array): ImportSheet[] => {
+  const workbook = XLSX.read(data, { type: 'array' });
+  return workbook.SheetNames.map(name => {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1 }) as any[][];
+    return { name, rows, rowCount: rows.filter(r => !isEmptyRow(r)).length, signature: headerFingerprint(rows) };
+  });
+};
+
+/**
+ * Seçili sayfaları başlık imzasına göre gruplar; sayfa sırası korunur.
+ */
+export const groupSheetsBySignature = (sheets: ImportSheet[]): { signature: string, sheetNames: string[] }[] => {
+  const groups = new Map<string, string[]>();
+  sheets.forEach(sheet => {
+    // İmzası çıkarılamayan sayfalar kendi eşleşmelerini alır.
+    const key = sheet.signature || `#${sheet.name}`;
+    groups.set(key, [...(groups.get(key) || []), sheet.name]);
+  });
+  return [...groups.entries()].map(([signature, sheetNames]) => ({ signature, sheetNames }));
+};
+
+type ResolvedMapping = Omit<ImportMappingGroup, 'signature' | 'sheetNames'>;
+
+/**
+ * Kolon eşleşmesini sırasıyla kayıtlı şablondan, yerel başlık eşleştiriciden ve yalnızca yerel güven
+ * düşükse AI'dan çözer. AI başarısız olursa yerel sonuç kullanılır.
+ */
+export const resolveMapping = async (
+  rows: any[][],
+  templates: MappingTemplate[],
+  aiMapper: (sample: any[][]) => Promise<{ mapping: Record<string, number>, startRow: number }>
+): Promise<ResolvedMapping> => {
+  const fingerprint = headerFingerprint(rows);
+  const template = fingerprint ? templates.find(t => t.fingerprint === fingerprint) : undefined;
+  if (template) {
+    return { mapping: template.mapping, startRow: template.startRow, source: 'TEMPLATE', templateName: template.name, fieldSources: fieldSources(template.mapping, 'TEMPLATE') };
+  }
+
+  const local = matchHeaders(rows);
+  const localResult: ResolvedMapping = { mapping: local.mapping, startRow: local.startRow, source: 'LOCAL', confidence: local.confidence, fieldSources: fieldSources(local.mapping, 'LOCAL') };
+  if (local.confidence >= LOCAL_CONFIDENCE_THRESHOLD) return localResult;
+
+  try {
+    const ai = await aiMapper(rows.slice(0, 10));
+    return { mapping: ai.mapping, startRow: ai.startRow, source: 'AI', confidence: local.confidence, fieldSources: fieldSources(ai.mapping, 'AI') };
+  } catch {
+    return localResult;
+  }
+};
+
+/**
+ * Sayfa satırlarını eşleşmeye göre metraj kalemlerine çevirir. Sayı biçimi her kolon için ayrı tespit edilir,
+ * birimler kanonikleştirilir ve kategori tanımdan çıkarılır; yorumlanamayan değerler sorun listesine eklenir.
+ * Kalemlerde kaynak sayfa adı saklanır; konum kolonu yoksa ve istenirse sayfa adı konum olarak kullanılır.
+ */
+export const parseSheetItems = (
+  sheetName: string,
+  rows: any[][],
+  mapping: Record<string, number>,
+  startRow: number,
+  options: { batchId: number, sheetAsLocation?: boolean }
+): ParsedSheet => {
+  const items: MetrajItem[] = [];
+  const issues: ImportIssue[] = [];
+  const dataRows = rows.slice(startRow);
+  const numberFormats: Record<string, NumberFormat> = Object.fromEntries(NUMERIC_FIELDS
+    .filter(field => mapping[field] >= 0)
+    .map(field => [field, detectNumberFormat(dataRows.map(r => r?.[mapping[field]]))]));
+  const sheetLocation = options.sheetAsLocation ? parseLocationPath(sheetName) : undefined;
+  let lastParent: MetrajItem | null = null;
+
+  dataRows.forEach((cols, i) => {
+    if (!cols || !(cols[mapping.pozNumber] || cols[mapping.description])) return;
+    const row = startRow + i + 1;
+    const report = (field: string, value: any, message: string) => issues.push({ sheet: sheetName, row, field, value, message });
+
+    const number = (field: string): number => {
+      const raw = cols[mapping[field]];
+      const format = numberFormats[field] || 'TR';
+      const value = parseNumber(raw, format);
+      if (value === null) {
+        report(field, raw, `Sayı olarak okunamadı (kolon ${format === 'TR' ? '1.234,56' : '1,234.56'} biçiminde); 0 alındı.`);
+        return 0;
+      }
+      return value;
+    };
+    // Boyut hücrelerinde "3,50+2*0,25" gibi ifadeler değerlendirilir ve özgün formül saklanır.
+    const formulas: Partial<Record<DimensionField, string>> = {};
+    const dimension = (field: DimensionField): number => {
+      const raw = cols[mapping[field]];
+      if (typeof raw === 'string' && isFormula(raw)) {
+        const value = tryEvaluate(raw);
+        if (value !== null) {
+          formulas[field] = raw.trim();
+          return value;
+        }
+        report(field, raw, 'Formül değerlendirilemedi; 0 alındı.');
+        return 0;
+      }
+      return number(field);
+    };
+
+    const description = String(cols[mapping.description] || '');
+    const rawUnit = cols[mapping.unit];
+    let unit = canonicalUnit(rawUnit);
+    if (!unit) {
+      if (String(rawUnit ?? '').trim()) report('unit', rawUnit, 'Tanınmayan birim; olduğu gibi alındı.');
+      else report('unit', rawUnit, 'Birim boş; m3 varsayıldı.');
+    }
+    const categoryCell = cols[mapping.category];
+    const category = inferCategory(categoryCell, description, unit);
+    if (!category) report('category', categoryCell ?? description, 'Kategori çıkarılamadı; Concrete varsayıldı.');
+    unit = unit || String(rawUnit ?? '').trim() || 'm3';
+
+    const itemBase: Partial<MetrajItem> = {
+      pozNumber: String(cols[mapping.pozNumber] || ''),
+      description,
+      unit,
+      multiplier: dimension('multiplier') || 1,
+      x: dimension('x'),
+      y: dimension('y'),
+      z: dimension('z'),
+      unitWeight: number('unitWeight'),
+      count: number('count') || 1,
+      totalQuantity: number('totalQuantity'),
+      category: category || 'Concrete',
+      location: (mapping.location >= 0 ? parseLocationPath(cols[mapping.location]) : undefined) || sheetLocation,
+      sourceSheet: sheetName,
+      sourceKey: mapping.key >= 0 && cols[mapping.key] !== undefined ? String(cols[mapping.key]) : undefined
+    };
+    // Negatif miktarlı ("eksi") satırlar bir önceki ana kalemin düşümü olarak alınır.
+    const isDeduction = !!lastParent && ((itemBase.totalQuantity || 0) < 0 || (itemBase.multiplier || 0) < 0);
+    const item = recalculateItem({
+      ...itemBase,
+      id: `excel-${options.batchId}-${sheetName}-${i}`,
+      formulas: Object.keys(formulas).length ? formulas : undefined,
+      ...(isDeduction ? { isDeduction, parentId: lastParent!.id } : {})
+    } as MetrajItem);
+    if (!isDeduction) lastParent = item;
+    items.push(item);
+  });
+
+  return { items, issues, numberFormats };
+};
@@ -0,0 +1,103 @@
+
+import { MetrajItem, ItemLocation, StructuralElement } from '../types';
+
+/**
+ * KONUM HİYERARŞİSİ
+ * Kalemler Blok → Kat → Yapı Elemanı ağacına yerleştirilir; her düğümde birim bazında ara toplam tutulur.
+ */
+
+export const ELEMENT_TYPES: StructuralElement[] = ['FOUNDATION', 'COLUMN', 'WALL', 'BEAM', 'SLAB', 'STAIR', 'OTHER'];
+
+const ELEMENT_SYNONYMS: Record<StructuralElement, RegExp> = {
+  FOUNDATION: /temel|radye|grobeton|foundation|footing/i,
+  COLUMN: /kolon|column/i,
+  WALL: /perde|duvar|wall/i,
+  BEAM: /kiri[şs]|hat[ıi]l|beam/i,
+  SLAB: /d[öo][şs]eme|plak|slab/i,
+  STAIR: /merdiven|stair/i,
+  OTHER: /di[ğg]er|other/i
+};
+
+const FLOOR_PATTERN = /kat|floor|bodrum|zemin|[çc]at[ıi]|asma|^[-+]?\d+\s*\.?\s*k?$|^b\d+$/i;
+
+const PATH_SEPARATOR = '|';
+
+export const detectElement = (text: string): StructuralElement | undefined =>
+  ELEMENT_TYPES.find(type => ELEMENT_SYNONYMS[type].test(text));
+
+/**
+ * "A Blok / 3. Kat / Kolon" gibi tek hücrelik konum yolunu parçalarına ayırır.
+ * Parçalar sıradan bağımsız olarak eleman ve kat kalıplarıyla eşleştirilir; kalan ilk parça blok kabul edilir.
+ */
+export const parseLocationPath = (text: string): ItemLocation | undefined => {
+  const parts = String(text ?? '').split(/[\/>|\\]/).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) return undefined;
+  const location: ItemLocation = {};
+  parts.forEach(part => {
+    const element = !location.element ? detectElement(part) : undefined;
+    if (element) location.element = element;
+    else if (!location.floor && FLOOR_PATTERN.test(part)) location.floor = part;
+    else if (!location.block) location.block = part;
+  });
+  return location;
+};
+
+export const locationPath = (location?: ItemLocation): string[] =>
+  [location?.block || '', location?.floor || '', location?.element || ''];
+
+export const locationKey = (location?: ItemLocation, depth = 3): string =>
+  locationPath(location).slice(0, depth).join(PATH_SEPARATOR);
+
+export interface LocationNode {
+  key: string;
+  level: 0 | 1 | 2; // 0: Blok, 1: Kat, 2: Eleman
+  label: string; // Boş etiket: atanmamış
+  children: LocationNode[];
+  items: MetrajItem[];
+  subtotals: Record<string, number>; // Birim -> hesaplanan miktar toplamı
+}
+
+const addSubtotal = (node: LocationNode, item: MetrajItem) => {
+  const unit = (item.unit || '').toLowerCase();
+  node.subtotals[unit] = Number(((node.subtotals[unit] || 0) + item.calculatedQuantity).toFixed(3));
+};
+
+/**
+ * Kalemleri konum ağacına yerleştirir. Kalemler yalnızca eleman düzeyindeki yapraklarda tutulur,
+ * ara toplamlar ise her düzeyde birikir. Düğüm ve kalem sırası ilk görülme sırasını korur.
+ */
+export const buildLocationTree = (items: MetrajItem[]): LocationNode[] => {
+  const roots: LocationNode[] = [];
+  const nodes = new Map<string, LocationNode>();
+
+  items.forEach(item => {
+    const path = locationPath(item.location);
+    let siblings = roots;
+    path.forEach((label, level) => {
+      const key = path.slice(0, level + 1).join(PATH_SEPARATOR);
+      let node = nodes.get(key);
+      if (!node) {
+        node = { key, level: level as 0 | 1 | 2, label, children: [], items: [], subtotals: {} };
+        nodes.set(key, node);
+        siblings.push(node);
+      }
+      addSubtotal(node, item);
+      if (level === 2) node.items.push(item);
+      siblings = node.children;
+    });
+  });
+
+  return roots;
+};
+
+export const flattenLocationTree = (nodes: LocationNode[]): LocationNode[] =>
+  nodes.flatMap(node => [node, ...flattenLocationTree(node.children)]);
+
+/**
+ * Seçilen düğüm (ve alt düğümleri) altındaki kalemleri döndürür. Anahtar boşsa tüm kalemler döner.
+ */
+export const filterItemsByLocation = (items: MetrajItem[], nodeKey: string | null): MetrajItem[] => {
+  if (nodeKey === null) return items;
+  const depth = nodeKey.split(PATH_SEPARATOR).length;
+  return items.filter(item => locationKey(item.location, depth) === nodeKey);
+};
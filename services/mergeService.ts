@@ -0,0 +1,153 @@
+
+import { MetrajItem } from '../types';
+import { recalculateItem } from './ruleEngine';
+import { normalizePoz } from './priceCatalog';
+import { locationKey } from './locationService';
+
+/**
+ * YENİDEN İÇE AKTARIM (FARK VE BİRLEŞTİRME)
+ * Revize dosyadan gelen satırlar mevcut kalemlerle eşleştirilir; eklenen, değişen ve kaldırılan satırlar
+ * satır bazında onaylanarak uygulanır. Böylece aynı dosyanın tekrar yüklenmesi kalemleri çoğaltmaz.
+ */
+
+export type DiffKind = 'ADDED' | 'CHANGED' | 'REMOVED' | 'UNCHANGED';
+
+export interface FieldChange {
+  field: keyof MetrajItem;
+  before: any;
+  after: any;
+}
+
+export interface DiffEntry {
+  id: string; // Onay seçiminde kullanılan kimlik
+  kind: DiffKind;
+  incoming?: MetrajItem;
+  existing?: MetrajItem;
+  changes: FieldChange[];
+}
+
+const COMPARED_FIELDS: (keyof MetrajItem)[] = [
+  'pozNumber', 'description', 'unit', 'category', 'x', 'y', 'z', 'multiplier', 'count', 'unitWeight', 'totalQuantity', 'location', 'isDeduction'
+];
+
+const normalizeText = (value: string) => String(value || '').trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
+
+// Dosyadaki kimliği değişmeyen kalem anahtarı: poz + tanım (+ düşüm işareti) + konum.
+const identityKey = (item: MetrajItem) =>
+  [normalizePoz(item.pozNumber), normalizeText(item.description), item.isDeduction ? '-' : '+', locationKey(item.location)].join('#');
+
+const exactKey = (item: MetrajItem) =>
+  [identityKey(item), item.x, item.y, item.z, item.multiplier, item.count].join('#');
+
+const sameValue = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffFields = (existing: MetrajItem, incoming: MetrajItem): FieldChange[] =>
+  COMPARED_FIELDS
+    .filter(field => !sameValue(existing[field], incoming[field]))
+    .map(field => ({ field, before: existing[field], after: incoming[field] }));
+
+/**
+ * Gelen satırları mevcut kalemlerle eşleştirir. Eşleştirme sırası: eşlenmiş anahtar kolonu, birebir aynı
+ * poz/tanım/boyut, ardından yalnızca poz/tanım/konum (boyutu değişmiş satır). Kaldırılan satırlar yalnızca
+ * aynı kaynak sayfadan içe aktarılmış (kimliği "excel-" ile başlayan) kalemler arasından belirlenir; elle eklenen
+ * kalemlere, kaynak bilgisi taşısalar bile dokunulmaz.
+ */
+export const diffImport = (existingItems: MetrajItem[], incomingItems: MetrajItem[]): DiffEntry[] => {
+  const importedSheets = new Set(incomingItems.map(i => i.sourceSheet).filter(Boolean));
+  const fromSameSheet = (i: MetrajItem) => !!i.sourceSheet && importedSheets.has(i.sourceSheet);
+  const isImported = (i: MetrajItem) => i.id.startsWith('excel-');
+  // Sayfa bilgisi tutulmadan aktarılmış eski kalemler eşleştirilir ama kaldırılmış sayılmaz.
+  const candidates = existingItems.filter(i => fromSameSheet(i) || (!i.sourceSheet && isImported(i)));
+  const unmatched = new Set(candidates.map(i => i.id));
+  const matches = new Map<string, MetrajItem>(); // gelen kalem id -> mevcut kalem
+
+  const matchBy = (key: (item: MetrajItem) => string | undefined) => {
+    const pool = new Map<string, MetrajItem[]>();
+    candidates.filter(i => unmatched.has(i.id)).forEach(i => {
+      const k = key(i);
+      if (k) pool.set(k, [...(pool.get(k) || []), i]);
+    });
+    incomingItems.filter(i => !matches.has(i.id)).forEach(incoming => {
+      const k = key(incoming);
+      const existing = k ? pool.get(k)?.shift() : undefined;
+      if (!existing) return;
+      matches.set(incoming.id, existing);
+      unmatched.delete(existing.id);
+    });
+  };
+
+  matchBy(i => i.sourceKey ? `${i.sourceSheet}#${i.sourceKey}` : undefined);
+  matchBy(exactKey);
+  matchBy(identityKey);
+
+  const entries: DiffEntry[] = incomingItems.map(incoming => {
+    const existing = matches.get(incoming.id);
+    if (!existing) return { id: incoming.id, kind: 'ADDED', incoming, changes: [] };
+    const changes = diffFields(existing, incoming);
+    return { id: incoming.id, kind: changes.length ? 'CHANGED' : 'UNCHANGED', incoming, existing, changes };
+  });
+  candidates
+    .filter(i => unmatched.has(i.id) && fromSameSheet(i) && isImported(i))
+    .forEach(existing => entries.push({ id: existing.id, kind: 'REMOVED', existing, changes: [] }));
+  return entries;
+};
+
+/**
+ * Onaylanan farkları mevcut kalemlere uygular. Değişen kalemler kimliğini ve formül/donatı gibi
+ * dosyada olmayan alanlarını korur; yeni düşüm satırları eşleşen ana kaleme bağlanır. Ana kalemi sonuçta
+ * bulunmayan düşümler (eklenmeyen yeni kalemin veya kaldırılan kalemin düşümleri), kalem silmedeki gibi çıkarılır.
+ */
+export const applyImportDiff = (existingItems: MetrajItem[], entries: DiffEntry[], accepted: Set<string>): MetrajItem[] => {
+  const chosen = entries.filter(e => accepted.has(e.id));
+  const removed = new Set(chosen.filter(e => e.kind === 'REMOVED').map(e => e.existing!.id));
+  const changed = new Map(chosen.filter(e => e.kind === 'CHANGED').map(e => [e.existing!.id, e]));
+
+  // Gelen kalem kimliği -> projede kalacak kimlik (eşleşen mevcut kalem veya yeni kalem)
+  const idMap = new Map<string, string>(entries.filter(e => e.incoming).map(e => [e.incoming!.id, e.existing?.id || e.incoming!.id]));
+
+  const updated = existingItems
+    .filter(item => !removed.has(item.id))
+    .map(item => {
+      const entry = changed.get(item.id);
+      if (!entry) return item;
+      const patch = Object.fromEntries(entry.changes.map(c => [c.field, c.after]));
+      const dimensionsChanged = entry.changes.some(c => ['x', 'y', 'z', 'multiplier'].includes(c.field));
+      return recalculateItem({
+        ...item,
+        ...patch,
+        ...(dimensionsChanged ? { formulas: entry.incoming!.formulas } : {}),
+        sourceKey: entry.incoming!.sourceKey,
+        sourceSheet: entry.incoming!.sourceSheet
+      });
+    });
+
+  const added = chosen
+    .filter(e => e.kind === 'ADDED')
+    .map(e => e.incoming!.parentId ? { ...e.incoming!, parentId: idMap.get(e.incoming!.parentId) } : e.incoming!);
+
+  const result = [...added, ...updated];
+  const ids = new Set(result.map(i => i.id));
+  const addedIds = new Set(added.map(i => i.id));
+  // Birleştirmeden önce de ana kalemi olmayan düşümlere dokunulmaz; DEDUCTION_ORPHAN kuralı onları raporlar.
+  const orphanedHere = (i: MetrajItem) => !!i.parentId && !ids.has(i.parentId) && (removed.has(i.parentId) || addedIds.has(i.id));
+  return result.filter(i => !(i.isDeduction && orphanedHere(i)));
+};
+
+/**
+ * Aynı projenin iki anlık görüntüsünü kalem kimliği üzerinden karşılaştırır (denetim kayıtları ve revizyonlar).
+ */
+export const diffItemsById = (before: MetrajItem[], after: MetrajItem[]): DiffEntry[] => {
+  const previous = new Map(before.map(i => [i.id, i]));
+  const entries: DiffEntry[] = after.map(item => {
+    const existing = previous.get(item.id);
+    if (!existing) return { id: item.id, kind: 'ADDED', incoming: item, changes: [] };
+    const changes = diffFields(existing, item);
+    return { id: item.id, kind: changes.length ? 'CHANGED' : 'UNCHANGED', incoming: item, existing, changes };
+  });
+  const current = new Set(after.map(i => i.id));
+  before.filter(i => !current.has(i.id)).forEach(existing => entries.push({ id: existing.id, kind: 'REMOVED', existing, changes: [] }));
+  return entries;
+};
+
+export const summarizeDiff = (entries: DiffEntry[]): Record<DiffKind, number> =>
+  entries.reduce((acc, e) => ({ ...acc, [e.kind]: acc[e.kind] + 1 }), { ADDED: 0, CHANGED: 0, REMOVED: 0, UNCHANGED: 0 } as Record<DiffKind, number>);
@@ -0,0 +1,103 @@
+
+import { MetrajCategory } from '../types';
+
+/**
+ * İÇE AKTARIM NORMALİZASYONU
+ * Sayı biçimi kolon bazında tespit edilir (TR: 1.234,56 / EN: 1,234.56), birim yazımları kanonik birimlere,
+ * kategori ise tanım metninden çıkarılır. Yorumlanamayan her değer önizlemede raporlanmak üzere döner.
+ */
+
+export type NumberFormat = 'TR' | 'EN';
+
+// "1.234" ve "1,234" gibi tek binlik ayıraçlı değerler iki biçimde de geçerli olduğundan kalıplara girmez.
+const TR_PATTERNS = [/^-?\d{1,3}(\.\d{3}){2,}(,\d+)?$/, /^-?\d{1,3}(\.\d{3})+,\d+$/, /^-?\d+,(\d{1,2}|\d{4,})$/];
+const EN_PATTERNS = [/^-?\d{1,3}(,\d{3}){2,}(\.\d+)?$/, /^-?\d{1,3}(,\d{3})+\.\d+$/, /^-?\d+\.(\d{1,2}|\d{4,})$/];
+
+/**
+ * Kolondaki metin hücrelerinden sayı biçimini oylar. "12.500" gibi belirsiz değerler oy vermez;
+ * eşitlikte Türkçe biçim varsayılır.
+ */
+export const detectNumberFormat = (values: any[]): NumberFormat => {
+  let tr = 0;
+  let en = 0;
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const v = value.trim().replace(/\s/g, '');
+    if (TR_PATTERNS.some(p => p.test(v))) tr++;
+    else if (EN_PATTERNS.some(p => p.test(v))) en++;
+  });
+  return en > tr ? 'EN' : 'TR';
+};
+
+// Binlik ayıraç yalnızca geçerli üçlü gruplarda kabul edilir; "0.250" veya "12.5" TR biçiminde sayı değildir.
+const STRICT_PATTERNS: Record<NumberFormat, RegExp> = {
+  TR: /^-?(\d+|[1-9]\d{0,2}(\.\d{3})+)(,\d+)?$/,
+  EN: /^-?(\d+|[1-9]\d{0,2}(,\d{3})+)(\.\d+)?$/
+};
+
+/**
+ * Hücreyi verilen biçime göre sayıya çevirir. Boş hücre için 0, biçime uymayan (ör. TR kolonda "12.5") ya da
+ * yorumlanamayan değer için null döner; böylece değer sessizce yanlış okunmak yerine önizlemede raporlanır.
+ */
+export const parseNumber = (value: any, format: NumberFormat): number | null => {
+  if (value === undefined || value === null || value === '') return 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).trim().replace(/\s/g, '');
+  if (!text) return 0;
+  if (!STRICT_PATTERNS[format].test(text)) return null;
+  const normalized = format === 'TR'
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  return parseFloat(normalized);
+};
+
+const UNIT_ALIASES: Record<string, string[]> = {
+  m3: ['m3', 'm^3', 'metrekup', 'metre kup', 'cbm'],
+  m2: ['m2', 'm^2', 'metrekare', 'metre kare', 'sqm'],
+  m: ['m', 'mt', 'm1', 'metre', 'mtul', 'lm'],
+  kg: ['kg', 'kilogram', 'kgr'],
+  ton: ['ton', 'tn', 't'],
+  adet: ['adet', 'ad', 'ea', 'pcs', 'pc', 'nos', 'sayi']
+};
+
+const UNIT_LOOKUP = new Map(Object.entries(UNIT_ALIASES).flatMap(([unit, aliases]) => aliases.map(a => [a, unit] as [string, string])));
+
+const cleanUnit = (unit: any): string =>
+  String(unit ?? '')
+    .trim()
+    .toLocaleLowerCase('tr')
+    .replace('³', '3').replace('²', '2')
+    .replace(/ü/g, 'u').replace(/ı/g, 'i')
+    .replace(/\.$/, '')
+    .trim();
+
+/**
+ * Birim yazımını kanonik birime (m3, m2, m, kg, ton, adet) çevirir; tanınmayan birimde undefined döner.
+ */
+export const canonicalUnit = (unit: any): string | undefined => UNIT_LOOKUP.get(cleanUnit(unit));
+
+// Sıra önemlidir: "beton kalıbı" kalıp, "betonarme demiri" donatı sayılmalıdır.
+const CATEGORY_PATTERNS: [MetrajCategory, RegExp][] = [
+  ['Formwork', /kal[ıi][pb]|formwork|shutter/i],
+  ['Reinforcement', /donat[ıi]|demir|nerv[üu]rl[üu]|has[ıi]r|[çc]elik|rebar|reinforc|mesh/i],
+  ['Finishing', /s[ıi]va|boya|seramik|fayans|[şs]ap|kaplama|al[çc][ıi]|parke|yal[ıi]t[ıi]m|izolasyon|plaster|paint|screed|tile/i],
+  ['Concrete', /beton|grobeton|concrete|c\d{2}\/\d{2}/i]
+];
+
+const UNIT_CATEGORY: Record<string, MetrajCategory> = { m3: 'Concrete', kg: 'Reinforcement', ton: 'Reinforcement' };
+
+/**
+ * Kategoriyi önce kategori hücresinden, sonra tanım metninden, en son birimden çıkarır.
+ */
+export const inferCategory = (categoryCell: any, description: string, unit?: string): MetrajCategory | undefined => {
+  const cell = String(categoryCell ?? '').trim();
+  if (cell) {
+    const exact = CATEGORY_PATTERNS.find(([category]) => category.toLowerCase() === cell.toLowerCase());
+    if (exact) return exact[0];
+    const fromCell = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(cell));
+    if (fromCell) return fromCell[0];
+  }
+  const fromDescription = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(description || ''));
+  if (fromDescription) return fromDescription[0];
+  return unit ? UNIT_CATEGORY[unit] : undefined;
+};
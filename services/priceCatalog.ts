@@ -0,0 +1,158 @@
+
+import { MetrajItem, MetrajCategory, PriceCatalog, PriceCatalogEntry, RuleContext, RuleFinding } from '../types';
+import { canonicalUnit, detectNumberFormat, parseNumber, NumberFormat } from './normalizationService';
+
+/**
+ * BİRİM FİYAT KATALOĞU
+ * Bakanlık birim fiyat listelerini (Excel/CSV) içeri alır, pozları çözer ve keşif bedelini hesaplar.
+ */
+
+export const normalizePoz = (poz: string): string =>
+  String(poz || '').trim().toUpperCase().replace(/\s+/g, '');
+
+// Katalog ve metraj birimlerini karşılaştırmak için ortak yazıma indirger (m³ → m3, Ad. → adet).
+export const normalizeUnitKey = (unit: string): string =>
+  canonicalUnit(unit) || String(unit || '').trim().toLowerCase().replace(/\.$/, '');
+
+// Para birimi ve açıklama metni ("12.500,00 TL") atılır; sayı biçimi kolon bazında içe aktarımdaki gibi çözülür.
+const cleanPrice = (val: any): any => typeof val === 'number' ? val : String(val ?? '').replace(/[^-0-9.,]/g, '');
+
+const parsePrice = (val: any, format: NumberFormat): number | null => parseNumber(cleanPrice(val), format);
+
+/**
+ * Ham tablo satırlarından katalog kalemlerini çıkarır. Başlık satırı ilk 20 satır içinde
+ * "Poz" ve "Fiyat" içeren satır olarak aranır. Fiyatı biçime uymayan satırlar tek bir hatada listelenir.
+ */
+export const parseCatalogRows = (rows: any[][]): PriceCatalogEntry[] => {
+  const headerIdx = rows.slice(0, 20).findIndex(r =>
+    r.some(c => /poz/i.test(String(c ?? ''))) && r.some(c => /fiyat|price/i.test(String(c ?? '')))
+  );
+  if (headerIdx === -1) throw new Error('Katalog başlık satırı bulunamadı (Poz No / Birim Fiyat).');
+
+  const headers = rows[headerIdx].map(c => String(c ?? '').toLowerCase());
+  const col = (re: RegExp, exclude: number[] = []) => headers.findIndex((h, i) => re.test(h) && !exclude.includes(i));
+  const pozCol = col(/poz/);
+  const priceCol = col(/fiyat|price/);
+  const unitCol = col(/birim|unit/, [priceCol]);
+  const descCol = col(/tan[ıi]m|a[çc][ıi]klama|description/, [pozCol]);
+
+  const dataRows = rows.slice(headerIdx + 1);
+  const format = detectNumberFormat(dataRows.map(r => cleanPrice(r[priceCol])));
+  const errors: string[] = [];
+  const entries: PriceCatalogEntry[] = [];
+  dataRows.forEach((r, i) => {
+    if (!r[pozCol]) return;
+    const unitPrice = parsePrice(r[priceCol], format);
+    if (unitPrice === null) {
+      // Rakam içermeyen hücreler (ör. "-") fiyatsız satır sayılır.
+      if (/\d/.test(String(r[priceCol]))) errors.push(`Satır ${headerIdx + i + 2}: "${r[priceCol]}" birim fiyat olarak okunamadı.`);
+      return;
+    }
+    if (unitPrice <= 0) return;
+    entries.push({
+      pozNumber: String(r[pozCol]).trim(),
+      description: descCol >= 0 ? String(r[descCol] ?? '').trim() : '',
+      unit: unitCol >= 0 ? String(r[unitCol] ?? '').trim() : '',
+      unitPrice
+    });
+  });
+  if (errors.length) throw new Error(errors.join('\n'));
+  return entries;
+};
+
+export const buildCatalogIndex = (catalog?: PriceCatalog | null): Map<string, PriceCatalogEntry> =>
+  new Map((catalog?.entries || []).map(e => [normalizePoz(e.pozNumber), e] as [string, PriceCatalogEntry]));
+
+export interface BillLine {
+  pozNumber: string;
+  description: string;
+  unit: string;
+  category: MetrajCategory;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  found: boolean;
+}
+
+export interface BillOfQuantities {
+  lines: BillLine[];
+  categoryTotals: Record<string, number>;
+  grandTotal: number;
+  unknownPozCount: number;
+}
+
+/**
+ * Kalemleri poz bazında toplar ve katalogdaki birim fiyatla çarparak keşif bedelini üretir.
+ */
+export const buildBillOfQuantities = (items: MetrajItem[], catalog?: PriceCatalog | null): BillOfQuantities => {
+  const index = buildCatalogIndex(catalog);
+  const lines = new Map<string, BillLine>();
+
+  items.forEach(item => {
+    const key = normalizePoz(item.pozNumber);
+    const entry = index.get(key);
+    const line = lines.get(key) || {
+      pozNumber: item.pozNumber,
+      description: entry?.description || item.description,
+      unit: entry?.unit || item.unit,
+      category: item.category,
+      quantity: 0,
+      unitPrice: entry?.unitPrice || 0,
+      amount: 0,
+      found: !!entry
+    };
+    line.quantity += item.totalQuantity;
+    line.amount = line.quantity * line.unitPrice;
+    lines.set(key, line);
+  });
+
+  const result = Array.from(lines.values());
+  const categoryTotals = result.reduce((acc, l) => {
+    acc[l.category] = (acc[l.category] || 0) + l.amount;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return {
+    lines: result,
+    categoryTotals,
+    grandTotal: result.reduce((sum, l) => sum + l.amount, 0),
+    unknownPozCount: result.filter(l => !l.found).length
+  };
+};
+
+/**
+ * Katalogda bulunmayan pozları bulgu olarak döndürür.
+ */
+export const checkUnknownPoz = ({ items, catalog }: RuleContext): RuleFinding[] => {
+  if (!catalog) return [];
+  const index = buildCatalogIndex(catalog);
+  return items
+    .filter(item => !index.has(normalizePoz(item.pozNumber)))
+    .map(item => ({
+      itemId: item.id,
+      message: `Poz birim fiyat kataloğunda bulunamadı. Poz: ${item.pozNumber}`,
+      standardReference: `Birim Fiyat ${catalog.year}`,
+      suggestedAction: 'Poz numarasını kontrol edin veya özel birim fiyat tanımlayın.'
+    }));
+};
+
+/**
+ * Kalem birimi ile katalog biriminin uyuşmadığı durumları bulgu olarak döndürür.
+ */
+export const checkCatalogUnitMismatch = ({ items, catalog }: RuleContext): RuleFinding[] => {
+  if (!catalog) return [];
+  const index = buildCatalogIndex(catalog);
+  const findings: RuleFinding[] = [];
+  items.forEach(item => {
+    const entry = index.get(normalizePoz(item.pozNumber));
+    if (entry?.unit && normalizeUnitKey(entry.unit) !== normalizeUnitKey(item.unit)) {
+      findings.push({
+        itemId: item.id,
+        message: `Birim uyuşmazlığı. Metraj: ${item.unit}, Katalog: ${entry.unit}. Poz: ${item.pozNumber}`,
+        standardReference: `Birim Fiyat ${catalog.year}`,
+        suggestedAction: `Kalemin birimini katalogdaki birimle (${entry.unit}) eşitleyin.`
+      });
+    }
+  });
+  return findings;
+};
@@ -0,0 +1,100 @@
+
+import { MetrajItem, RebarShape, RebarSpec, RuleContext, RuleFinding } from '../types';
+
+/**
+ * DONATI METRAJ MOTORU
+ * Nervürlü çubukların anma birim ağırlıkları (kg/m = Ø² / 162) ve çubuk açınım boyu üzerinden ağırlık hesabı.
+ */
+export const NOMINAL_WEIGHTS: Record<number, number> = {
+  8: 0.395,
+  10: 0.617,
+  12: 0.888,
+  14: 1.208,
+  16: 1.578,
+  18: 1.998,
+  20: 2.466,
+  22: 2.984,
+  24: 3.551,
+  25: 3.853,
+  26: 4.168,
+  28: 4.834,
+  30: 5.549,
+  32: 6.313
+};
+
+export const REBAR_DIAMETERS = Object.keys(NOMINAL_WEIGHTS).map(Number);
+
+export const REBAR_SHAPES: RebarShape[] = ['STRAIGHT', 'L', 'U', 'STIRRUP'];
+
+export const DEFAULT_REBAR: RebarSpec = { diameter: 12, shape: 'STRAIGHT', segments: [0, 0, 0], barCount: 1 };
+
+// Şekle göre kullanılan parça (a, b, c) sayısı
+export const SHAPE_SEGMENTS: Record<RebarShape, number> = { STRAIGHT: 1, L: 2, U: 3, STIRRUP: 2 };
+
+// Normal donatı oranı aralığı (kg donatı / m³ beton); kural parametreleriyle proje bazında değiştirilebilir.
+export const REBAR_RATIO_RANGE = { min: 40, max: 250 };
+
+export const getNominalWeight = (diameter: number): number =>
+  NOMINAL_WEIGHTS[diameter] ?? Number(((diameter * diameter) / 162).toFixed(3));
+
+/**
+ * Çubuk açınım boyu (m). Etriyelerde iki adet 135° kanca için 2 × 10Ø eklenir.
+ */
+export const getBarLength = (spec: RebarSpec): number => {
+  const [a = 0, b = 0, c = 0] = spec.segments;
+  switch (spec.shape) {
+    case 'L': return a + b;
+    case 'U': return a + b + c;
+    case 'STIRRUP': return 2 * (a + b) + (20 * spec.diameter) / 1000;
+    default: return a;
+  }
+};
+
+/**
+ * Tek bir eleman için donatı ağırlığı (kg). Benzer eleman çarpanı `calculateQuantity` içinde uygulanır.
+ */
+export const calculateRebarWeight = (spec: RebarSpec): number =>
+  getBarLength(spec) * (spec.barCount || 0) * getNominalWeight(spec.diameter);
+
+export const toKg = (item: MetrajItem): number =>
+  (item.unit || '').toLowerCase() === 'ton' ? item.calculatedQuantity * 1000 : item.calculatedQuantity;
+
+/**
+ * Çap bazında donatı ağırlığı ara toplamları (kg).
+ */
+export const summarizeRebarByDiameter = (items: MetrajItem[]): Array<{ diameter: number, length: number, weight: number }> => {
+  const groups = new Map<number, { diameter: number, length: number, weight: number }>();
+  items.filter(i => i.category === 'Reinforcement' && i.rebar).forEach(item => {
+    const spec = item.rebar!;
+    const group = groups.get(spec.diameter) || { diameter: spec.diameter, length: 0, weight: 0 };
+    group.length += getBarLength(spec) * spec.barCount * (item.multiplier || 1) * (item.count || 1);
+    group.weight += toKg(item);
+    groups.set(spec.diameter, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => a.diameter - b.diameter);
+};
+
+/**
+ * Toplam donatı ağırlığının toplam beton hacmine oranı olağan aralığın dışındaysa bulgu üretir.
+ */
+export const checkRebarRatio = ({ items, params }: RuleContext): RuleFinding[] => {
+  const { min, max } = { ...REBAR_RATIO_RANGE, ...params };
+  const rebarItems = items.filter(i => i.category === 'Reinforcement' && ['kg', 'ton'].includes((i.unit || '').toLowerCase()));
+  const concreteVolume = items
+    .filter(i => i.category === 'Concrete' && (i.unit || '').toLowerCase() === 'm3')
+    .reduce((sum, i) => sum + i.calculatedQuantity, 0);
+  if (rebarItems.length === 0 || concreteVolume <= 0) return [];
+
+  const rebarKg = rebarItems.reduce((sum, i) => sum + toKg(i), 0);
+  const ratio = rebarKg / concreteVolume;
+  if (ratio >= min && ratio <= max) return [];
+
+  return [{
+    itemId: rebarItems[0].id,
+    message: `Olağan dışı donatı oranı: ${ratio.toFixed(1)} kg/m³ (${rebarKg.toFixed(0)} kg / ${concreteVolume.toFixed(2)} m³). Beklenen aralık ${min}-${max} kg/m³.`,
+    standardReference: 'TS 500 / TS 708',
+    suggestedAction: ratio < min
+      ? 'Eksik donatı kalemi veya birim (ton/kg) hatası olup olmadığını kontrol edin.'
+      : 'Çubuk adedi, boyu ve benzer çarpanlarını kontrol edin; beton metrajının eksik olmadığından emin olun.'
+  }];
+};
@@ -0,0 +1,254 @@
+
+import { AuditRecord, AuditStats, MetrajItem, RiskComponentKey, Severity, UserSettings } from '../types';
+import { canonicalUnit } from './normalizationService';
+import { toKg } from './rebarService';
+
+/**
+ * DENETİM RAPORU (PDF)
+ * Denetim kaydını yazdırılabilir bir HTML belgesine dönüştürür ve tarayıcının yazdırma penceresinden PDF olarak
+ * kaydedilmesini sağlar. Sunucu gerekmez; Türkçe karakterler tarayıcı fontlarıyla doğru basılır.
+ */
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  [Severity.CRITICAL]: 'Kritik',
+  [Severity.WARNING]: 'Uyarı',
+  [Severity.INFO]: 'Bilgi'
+};
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  [Severity.CRITICAL]: '#dc2626',
+  [Severity.WARNING]: '#d97706',
+  [Severity.INFO]: '#2563eb'
+};
+
+/**
+ * Denetim anındaki kalem istatistiklerini çıkarır; kayıtla birlikte saklanır.
+ */
+export const buildAuditStats = (items: MetrajItem[]): AuditStats => items.reduce((stats, item) => {
+  const unit = canonicalUnit(item.unit);
+  if (unit === 'm3') stats.totalVolume += item.totalQuantity;
+  if (unit === 'm2') stats.totalArea += item.totalQuantity;
+  if (item.category === 'Reinforcement' && (unit === 'kg' || unit === 'ton')) stats.rebarWeight += toKg(item);
+  if (item.isDeduction) stats.deductionCount++;
+  stats.byCategory[item.category] = (stats.byCategory[item.category] || 0) + 1;
+  return stats;
+}, { itemCount: items.length, deductionCount: 0, totalVolume: 0, totalArea: 0, rebarWeight: 0, byCategory: {} } as AuditStats);
+
+const RISK_COMPONENT_LABELS: Record<RiskComponentKey, string> = {
+  severity: 'Bulgu Önemi',
+  quantity: 'Etkilenen Miktar',
+  mismatch: 'Miktar Uyuşmazlığı'
+};
+
+const escapeHtml = (value: any): string =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const formatNumber = (value: number, digits = 2) => value.toLocaleString('tr-TR', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+const severityBadge = (severity: Severity) =>
+  `<span class="badge" style="background:${SEVERITY_COLORS[severity] || '#6b7280'}">${escapeHtml(SEVERITY_LABELS[severity] || severity)}</span>`;
+
+const REPORT_STYLES = `
+  @page { size: A4; margin: 18mm 15mm 20mm; }
+  * { box-sizing: border-box; }
+  body { font-family: "Segoe UI", Roboto, Arial, sans-serif; color: #111827; font-size: 11px; line-height: 1.5; margin: 0; }
+  header { display: flex; justify-content: space-between; align-items: center; border-bottom: 3px solid #111827; padding-bottom: 10px; margin-bottom: 16px; }
+  header img { max-height: 48px; max-width: 160px; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 13px; margin: 20px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e5e7eb; }
+  .meta { color: #6b7280; font-size: 10px; }
+  .summary { display: flex; gap: 16px; align-items: center; }
+  .score { flex: none; width: 84px; height: 84px; border-radius: 50%; border: 8px solid; display: flex; align-items: center; justify-content: center; font-size: 20px; font-weight: 800; }
+  .stats { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; }
+  .stat { border: 1px solid #e5e7eb; border-radius: 6px; padding: 6px 8px; }
+  .stat b { display: block; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; font-size: 9px; text-transform: uppercase; }
+  tr { page-break-inside: avoid; }
+  .badge { color: #fff; border-radius: 4px; padding: 1px 5px; font-size: 9px; font-weight: 700; white-space: nowrap; }
+  .finding { border-left: 4px solid; padding: 4px 10px; margin-bottom: 8px; page-break-inside: avoid; }
+  .signatures { display: flex; gap: 40px; margin-top: 40px; page-break-inside: avoid; }
+  .signatures div { flex: 1; border-top: 1px solid #111827; padding-top: 6px; min-height: 70px; }
+  footer { margin-top: 24px; color: #6b7280; font-size: 9px; text-align: center; }
+  .page { position: relative; height: 258mm; padding-bottom: 8mm; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  .page-number { position: absolute; right: 0; bottom: 0; color: #6b7280; font-size: 9px; }
+`;
+
+// A4 yazdırılabilir alanı (@page kenar boşlukları düşülmüş, 1 mm yuvarlama payıyla) ve sayfa numarası satırı, mm cinsinden.
+const PAGE_WIDTH_MM = 180;
+const PAGE_HEIGHT_MM = 258;
+const PAGE_NUMBER_HEIGHT_MM = 8;
+const PX_PER_MM = 96 / 25.4;
+
+const outerHeight = (el: Element): number => {
+  const style = el.ownerDocument.defaultView!.getComputedStyle(el);
+  return el.getBoundingClientRect().height + parseFloat(style.marginTop) + parseFloat(style.marginBottom);
+};
+
+/**
+ * Rapor gövdesini sabit yükseklikli sayfalara böler ve her sayfanın altına "Sayfa X / N" yazar. @page kenar kutuları
+ * yalnızca Chromium'da basıldığından sayfalama elle yapılır; uzun tablolar satır satır bölünür ve başlıkları yeni
+ * sayfada tekrarlanır. Sınır: tek başına bir sayfadan uzun blok (ör. çok uzun bulgu metni) taşar ve sonraki
+ * numaralar fiziksel sayfalarla kayabilir.
+ */
+const paginateReport = (doc: Document) => {
+  const limit = (PAGE_HEIGHT_MM - PAGE_NUMBER_HEIGHT_MM) * PX_PER_MM;
+  // Ölçümler düğümler taşınmadan, belge akışı bozulmadan alınır.
+  const blocks = Array.from(doc.body.children).map(block => ({
+    block,
+    height: outerHeight(block),
+    rows: block.tagName === 'TABLE'
+      ? Array.from(block.querySelectorAll('tbody > tr')).map(row => ({ row, height: row.getBoundingClientRect().height }))
+      : []
+  }));
+
+  const pages: HTMLElement[] = [];
+  let page!: HTMLElement;
+  let used = 0;
+  const startPage = () => {
+    page = doc.createElement('section');
+    pages.push(page);
+    used = 0;
+  };
+  startPage();
+
+  blocks.forEach(({ block, height, rows }) => {
+    if (!rows.length || used + height <= limit) {
+      if (used > 0 && used + height > limit) startPage();
+      page.appendChild(block);
+      used += height;
+      return;
+    }
+    const head = block.querySelector('thead');
+    const headHeight = head ? outerHeight(head) : 0;
+    let body: Element | null = null;
+    rows.forEach(({ row, height: rowHeight }) => {
+      if (body && used + rowHeight <= limit) {
+        body.appendChild(row);
+        used += rowHeight;
+        return;
+      }
+      if (used > 0 && (body || used + headHeight + rowHeight > limit)) startPage();
+      const part = page.appendChild(block.cloneNode(false) as Element);
+      if (head) part.appendChild(head.cloneNode(true));
+      body = part.appendChild(doc.createElement('tbody'));
+      body.appendChild(row);
+      used += headHeight + rowHeight;
+    });
+    block.remove();
+  });
+
+  pages.forEach((p, i) => {
+    p.className = 'page';
+    const number = p.appendChild(doc.createElement('div'));
+    number.className = 'page-number';
+    number.textContent = `Sayfa ${i + 1} / ${pages.length}`;
+    doc.body.appendChild(p);
+  });
+};
+
+/**
+ * Denetim kaydının rapor HTML'i. Eski kayıtlarda kural bulguları ve istatistikler saklanmadığından ilgili bölümler
+ * bu durumu belirtir.
+ */
+export const renderAuditReportHtml = (record: AuditRecord, settings: UserSettings, generatedAt = new Date()): string => {
+  const { analysis, stats, validationResults } = record;
+  const scoreColor = record.riskScore > 60 ? '#dc2626' : '#16a34a';
+  const statCards = stats ? [
+    ['Kalem Sayısı', String(stats.itemCount)],
+    ['Düşüm Satırı', String(stats.deductionCount)],
+    ['Toplam Hacim', `${formatNumber(stats.totalVolume)} m³`],
+    ['Toplam Alan', `${formatNumber(stats.totalArea)} m²`],
+    ['Donatı', `${formatNumber(stats.rebarWeight / 1000, 3)} ton`],
+    ['Kategoriler', Object.entries(stats.byCategory).map(([c, n]) => `${c}: ${n}`).join(', ') || '-']
+  ] : [['Kalem Sayısı', String(record.itemCount)]];
+
+  const aiFindings = analysis.findings.length
+    ? analysis.findings.map(f => `
+      <div class="finding" style="border-color:${SEVERITY_COLORS[f.severity] || '#6b7280'}">
+        <div>${severityBadge(f.severity)} <b>${escapeHtml(f.title)}</b> <span class="meta">${escapeHtml(f.standard)}</span></div>
+        <div>${escapeHtml(f.explanation)}</div>
+      </div>`).join('')
+    : '<p class="meta">AI bulgusu yok.</p>';
+
+  const localRisk = record.localRisk
+    ? `<h2>Yerel Risk Puanı: ${record.localRisk.score}%</h2>
+      <table>
+        <thead><tr><th>Bileşen</th><th>Etkilenme Oranı</th><th>Puan</th></tr></thead>
+        <tbody>${record.localRisk.components.map(c => `<tr><td>${escapeHtml(RISK_COMPONENT_LABELS[c.key])}</td><td>%${formatNumber(c.share * 100, 1)}</td><td>${formatNumber(c.points, 1)} / ${c.weight}</td></tr>`).join('')}</tbody>
+      </table>`
+    : '';
+
+  const ruleFindings = !validationResults
+    ? '<p class="meta">Bu denetim kaydında kural bulguları saklanmamıştır.</p>'
+    : !validationResults.length
+      ? '<p class="meta">Kural ihlali bulunmadı.</p>'
+      : `<table>
+          <thead><tr><th>#</th><th>Önem</th><th>Kural</th><th>Bulgu</th><th>Standart</th><th>Önerilen İşlem</th></tr></thead>
+          <tbody>${validationResults.map((r, i) => `<tr><td>${i + 1}</td><td>${severityBadge(r.severity)}</td><td>${escapeHtml(r.ruleId)}</td><td>${escapeHtml(r.message)}</td><td>${escapeHtml(r.standardReference)}</td><td>${escapeHtml(r.suggestedAction)}</td></tr>`).join('')}</tbody>
+        </table>`;
+
+  return `<!DOCTYPE html>
+<html lang="tr">
+<head><meta charset="utf-8"><title>${escapeHtml(`${record.projectName} - Denetim Raporu`)}</title><style>${REPORT_STYLES}</style></head>
+<body>
+  <header>
+    <div>
+      <h1>Metraj Denetim Raporu</h1>
+      <div class="meta">${escapeHtml(settings.orgName)}${settings.preferredStandard ? ` · ${escapeHtml(settings.preferredStandard)}` : ''}</div>
+    </div>
+    ${settings.logoDataUrl ? `<img src="${escapeHtml(settings.logoDataUrl)}" alt="">` : ''}
+  </header>
+  <table>
+    <tr><th>Proje</th><td>${escapeHtml(record.projectName)}</td><th>Denetim Tarihi</th><td>${escapeHtml(new Date(record.date).toLocaleString('tr-TR'))}</td></tr>
+    <tr><th>Rapor No</th><td>${escapeHtml(record.id)}</td><th>Rapor Oluşturma</th><td>${escapeHtml(generatedAt.toLocaleString('tr-TR'))}</td></tr>
+  </table>
+
+  <h2>Özet</h2>
+  <div class="summary">
+    <div class="score" style="border-color:${scoreColor};color:${scoreColor}">${record.riskScore}%</div>
+    <p>${escapeHtml(analysis.failed ? 'AI analizi yapılamadı; risk puanı kural bulgularından hesaplanmıştır.' : analysis.summary)}</p>
+  </div>
+  ${localRisk}
+
+  <h2>Kalem İstatistikleri</h2>
+  <div class="stats">${statCards.map(([label, value]) => `<div class="stat"><span class="meta">${escapeHtml(label)}</span><b>${escapeHtml(value)}</b></div>`).join('')}</div>
+
+  <h2>Uzman Değerlendirmesi (AI)</h2>
+  ${aiFindings}
+
+  <h2>Kural Denetimi Bulguları</h2>
+  ${ruleFindings}
+
+  <div class="signatures">
+    <div><b>Hazırlayan</b><br>${escapeHtml(settings.engineerName || '')}<br><span class="meta">${escapeHtml(settings.orgName)}</span><br><span class="meta">İmza / Tarih</span></div>
+    <div><b>Kontrol Eden</b><br><br><br><span class="meta">İmza / Tarih</span></div>
+  </div>
+  <footer>${escapeHtml(settings.orgName)} · ${escapeHtml(generatedAt.toLocaleString('tr-TR'))}</footer>
+</body>
+</html>`;
+};
+
+/**
+ * Raporu gizli bir çerçevede açar, sayfalara böler ve yazdırma penceresini başlatır; kullanıcı hedef olarak
+ * "PDF olarak kaydet"i seçer. Çerçeve, ölçümler baskıdaki satır kırılımlarıyla aynı olsun diye A4 içerik genişliğindedir.
+ */
+export const printAuditReport = (record: AuditRecord, settings: UserSettings) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = `${PAGE_WIDTH_MM}mm`;
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = renderAuditReportHtml(record, settings);
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    paginateReport(frame.contentDocument!);
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};
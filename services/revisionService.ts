@@ -0,0 +1,113 @@
+
+import { MetrajCategory, MetrajItem, Project, ProjectRevision } from '../types';
+import { diffItemsById, DiffEntry } from './mergeService';
+import { normalizePoz } from './priceCatalog';
+import { CURRENT_SCHEMA_VERSION } from './backupService';
+
+/**
+ * PROJE REVİZYONLARI
+ * Çizimler revize edildikçe metrajın o anki hali adlandırılmış revizyon olarak proje kaydından ayrı saklanır
+ * (projectId ile bağlanır). İki revizyon (veya
+ * revizyon ile güncel çalışma) kalem, poz ve kategori toplamı düzeyinde karşılaştırılır; eski bir revizyondan
+ * yeni bir çalışma kopyası oluşturulabilir. Miktarlar keşif özetindeki gibi manuel miktar üzerinden toplanır.
+ */
+
+// Karşılaştırmada revizyon yerine projenin güncel kalemlerini temsil eder.
+export const CURRENT_REVISION_ID = 'current';
+
+export interface QuantityDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface PozDelta extends QuantityDelta {
+  pozNumber: string;
+  description: string;
+  unit: string;
+}
+
+export interface CategoryDelta extends QuantityDelta {
+  category: MetrajCategory;
+  unit: string;
+}
+
+export interface RevisionDiff {
+  items: DiffEntry[]; // Değişmeyen kalemler hariç
+  poz: PozDelta[]; // Yalnızca miktarı değişen pozlar
+  categories: CategoryDelta[];
+}
+
+// Kayan nokta toplamlarındaki artıklar değişiklik sayılmaz.
+const QUANTITY_EPSILON = 1e-6;
+
+/**
+ * Projenin güncel kalemlerinden revizyon oluşturur. `existing` projenin mevcut revizyonlarıdır; ad bunlar içinde tekil olmalıdır.
+ */
+export const createRevision = (project: Project, existing: ProjectRevision[], name: string): ProjectRevision => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Revizyon adı boş olamaz.');
+  if (existing.some(r => r.projectId === project.id && r.name.toLocaleLowerCase('tr') === trimmed.toLocaleLowerCase('tr'))) {
+    throw new Error(`"${trimmed}" adlı bir revizyon zaten var.`);
+  }
+  return { id: Date.now().toString(), projectId: project.id, name: trimmed, createdAt: new Date().toISOString(), items: project.items };
+};
+
+export const revisionItems = (project: Project, revisions: ProjectRevision[], revisionId: string): MetrajItem[] =>
+  revisionId === CURRENT_REVISION_ID ? project.items : revisions.find(r => r.id === revisionId)?.items || [];
+
+const sumBy = <K extends string>(items: MetrajItem[], key: (item: MetrajItem) => K) => items.reduce((totals, item) => {
+  const k = key(item);
+  totals.set(k, (totals.get(k) || 0) + item.totalQuantity);
+  return totals;
+}, new Map<K, number>());
+
+const toDelta = (before = 0, after = 0): QuantityDelta => ({ before, after, delta: after - before });
+
+export const diffRevisions = (before: MetrajItem[], after: MetrajItem[]): RevisionDiff => {
+  // Poz bilgisi (tanım, birim) tercihen yeni revizyondan alınır.
+  const pozInfo = new Map<string, MetrajItem>();
+  [...before, ...after].forEach(item => pozInfo.set(normalizePoz(item.pozNumber), item));
+  const pozBefore = sumBy(before, item => normalizePoz(item.pozNumber));
+  const pozAfter = sumBy(after, item => normalizePoz(item.pozNumber));
+  const poz = [...pozInfo.keys()]
+    .map(key => {
+      const item = pozInfo.get(key)!;
+      return { pozNumber: item.pozNumber, description: item.description, unit: item.unit, ...toDelta(pozBefore.get(key), pozAfter.get(key)) };
+    })
+    .filter(d => Math.abs(d.delta) > QUANTITY_EPSILON);
+
+  // Farklı birimler toplanamayacağından kategori toplamları birim bazında ayrılır.
+  const categoryKey = (item: MetrajItem) => `${item.category}|${item.unit}`;
+  const catBefore = sumBy(before, categoryKey);
+  const catAfter = sumBy(after, categoryKey);
+  const categories = [...new Set([...catBefore.keys(), ...catAfter.keys()])]
+    .sort()
+    .map(key => {
+      const [category, unit] = key.split('|');
+      return { category: category as MetrajCategory, unit, ...toDelta(catBefore.get(key), catAfter.get(key)) };
+    });
+
+  return { items: diffItemsById(before, after).filter(e => e.kind !== 'UNCHANGED'), poz, categories };
+};
+
+/**
+ * Revizyondan yeni bir proje oluşturur. Kural ayarları ve katalog korunur; hakediş dönemleri özgün sözleşmeye
+ * ait olduğundan taşınmaz. Karşılaştırma için çıkış revizyonunun yeni projeye bağlı bir kopyası da döner.
+ */
+export const branchFromRevision = (project: Project, revision: ProjectRevision): { project: Project, revision: ProjectRevision } => {
+  const id = Date.now().toString();
+  return {
+    project: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id,
+      name: `${project.name} (${revision.name})`,
+      createdAt: new Date().toISOString(),
+      items: revision.items,
+      priceCatalogId: project.priceCatalogId,
+      ruleConfig: project.ruleConfig,
+      mutedFindings: project.mutedFindings
+    },
+    revision: { ...revision, id: `${id}-${revision.id}`, projectId: id }
+  };
+};
@@ -0,0 +1,111 @@
+
+import { MetrajCategory, MetrajItem, RiskBreakdown, RiskComponent, RiskComponentKey, Severity, ToleranceSetting, ValidationResult } from '../types';
+import { isQuantityMismatch, DEFAULT_TOLERANCES } from './ruleEngine';
+import { canonicalUnit } from './normalizationService';
+
+/**
+ * YEREL RİSK PUANI
+ * Kural bulgularından deterministik olarak hesaplanır; aynı proje her zaman aynı puanı alır. Puan üç bileşenin
+ * toplamıdır ve her bileşen kategori ağırlıklı bir oran (0-1) ile ağırlığının çarpımıdır:
+ *   severity  Bulgusu olan kalemlerin, en ağır bulgularının önem katsayısıyla ağırlıklandırılmış payı
+ *   quantity  Bulgulu kalemlerin toplam miktar içindeki payı (birim bazında hesaplanıp kalem ağırlığıyla birleştirilir)
+ *   mismatch  Manuel miktarı tolerans dışında kalan kalemlerin payı
+ */
+
+export const RISK_WEIGHTS: Record<RiskComponentKey, number> = {
+  severity: 45,
+  quantity: 30,
+  mismatch: 25
+};
+
+export const SEVERITY_FACTORS: Record<Severity, number> = {
+  [Severity.CRITICAL]: 1,
+  [Severity.WARNING]: 0.4,
+  [Severity.INFO]: 0.1
+};
+
+// Taşıyıcı sistem kalemlerindeki hatalar hem maliyet hem güvenlik açısından daha ağır sayılır.
+export const CATEGORY_WEIGHTS: Record<MetrajCategory, number> = {
+  Reinforcement: 1.5,
+  Concrete: 1.3,
+  Formwork: 1,
+  Finishing: 0.7
+};
+
+const categoryWeight = (item: MetrajItem) => CATEGORY_WEIGHTS[item.category] ?? 1;
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Her kalem için bulgularındaki en yüksek önem katsayısını döndürür; ilgili kalemler de bulgudan etkilenmiş sayılır.
+ */
+const worstSeverityByItem = (results: ValidationResult[]): Map<string, number> => {
+  const worst = new Map<string, number>();
+  results.forEach(r => {
+    const factor = SEVERITY_FACTORS[r.severity] || 0;
+    [r.itemId, ...(r.relatedItemIds || [])].forEach(id => worst.set(id, Math.max(worst.get(id) || 0, factor)));
+  });
+  return worst;
+};
+
+/**
+ * Bulgulu kalemlerin miktar payı: her birimde ayrı hesaplanır (m³ ile kg toplanamaz), birimler kalem ağırlıklarıyla birleştirilir.
+ */
+const affectedQuantityShare = (items: MetrajItem[], affected: Map<string, number>): number => {
+  const byUnit = new Map<string, { total: number, affected: number, weight: number }>();
+  items.forEach(item => {
+    const unit = canonicalUnit(item.unit) || item.unit;
+    const entry = byUnit.get(unit) || { total: 0, affected: 0, weight: 0 };
+    const quantity = Math.abs(item.calculatedQuantity || 0);
+    entry.total += quantity;
+    if (affected.has(item.id)) entry.affected += quantity;
+    entry.weight += categoryWeight(item);
+    byUnit.set(unit, entry);
+  });
+  const groups = [...byUnit.values()].filter(g => g.total > 0);
+  const totalWeight = groups.reduce((sum, g) => sum + g.weight, 0);
+  return totalWeight ? groups.reduce((sum, g) => sum + (g.affected / g.total) * g.weight, 0) / totalWeight : 0;
+};
+
+export const computeRiskScore = (
+  items: MetrajItem[],
+  results: ValidationResult[],
+  tolerances: Record<string, ToleranceSetting> = DEFAULT_TOLERANCES
+): RiskBreakdown => {
+  const worst = worstSeverityByItem(results);
+  const mismatched = new Set(items.filter(item => isQuantityMismatch(item, tolerances)).map(item => item.id));
+  const totalWeight = items.reduce((sum, item) => sum + categoryWeight(item), 0);
+  const weightedShare = (value: (item: MetrajItem) => number) =>
+    totalWeight ? items.reduce((sum, item) => sum + categoryWeight(item) * value(item), 0) / totalWeight : 0;
+
+  const shares: Record<RiskComponentKey, number> = {
+    severity: weightedShare(item => worst.get(item.id) || 0),
+    quantity: affectedQuantityShare(items, worst),
+    mismatch: weightedShare(item => mismatched.has(item.id) ? 1 : 0)
+  };
+  const components: RiskComponent[] = (Object.keys(RISK_WEIGHTS) as RiskComponentKey[]).map(key => ({
+    key,
+    weight: RISK_WEIGHTS[key],
+    share: round(shares[key]),
+    points: round(RISK_WEIGHTS[key] * shares[key], 1)
+  }));
+
+  const categories = (Object.keys(CATEGORY_WEIGHTS) as MetrajCategory[])
+    .map(category => {
+      const group = items.filter(item => item.category === category);
+      return {
+        category,
+        weight: CATEGORY_WEIGHTS[category],
+        itemCount: group.length,
+        affectedCount: group.filter(item => worst.has(item.id)).length,
+        mismatchCount: group.filter(item => mismatched.has(item.id)).length
+      };
+    })
+    .filter(c => c.itemCount > 0);
+
+  return {
+    score: Math.min(100, Math.round(components.reduce((sum, c) => sum + RISK_WEIGHTS[c.key] * shares[c.key], 0))),
+    components,
+    categories
+  };
+};
@@ -1,5 +1,8 @@
 
-import { MetrajItem, ValidationResult, Severity } from '../types';
+import { MetrajItem, MetrajCategory, DimensionField, RuleContext, RuleFinding, StructuralElement, ToleranceSetting } from '../types';
+import { calculateRebarWeight } from './rebarService';
+import { normalizeUnitKey, normalizePoz } from './priceCatalog';
+import { detectElement } from './locationService';
 
 /**
  * DETERMINISTIC CALCULATION ENGINE
@@ -20,7 +23,11 @@ export const calculateQuantity = (item: Partial<MetrajItem>): number => {
 
   let result = 0;
 
-  if (unit === 'm3') {
+  if (item.category === 'Reinforcement' && item.rebar && (unit === 'kg' || unit === 'ton')) {
+    // Donatı çizelgesi: açınım boyu × çubuk adedi × anma birim ağırlık
+    result = calculateRebarWeight(item.rebar);
+    if (unit === 'ton') result = result / 1000;
+  } else if (unit === 'm3') {
     result = volume;
   } else if (unit === 'm2') {
     result = area;
@@ -35,36 +42,240 @@ export const calculateQuantity = (item: Partial<MetrajItem>): number => {
     result = x || y || z || 1;
   }
 
-  return Number((result * multiplier * count).toFixed(3));
+  const total = result * multiplier * count;
+  // Düşüm satırları her zaman negatif miktar üretir; böylece poz toplamlarında ana kalemden düşülür.
+  return Number((item.isDeduction ? -Math.abs(total) : total).toFixed(3));
 };
 
-export const runStructuralRules = (items: MetrajItem[]): ValidationResult[] => {
-  const results: ValidationResult[] = [];
+/**
+ * Ana kalemin, kendisine bağlı düşüm satırları çıkarıldıktan sonraki net hesaplanan miktarı.
+ */
+export const getNetQuantity = (parent: MetrajItem, items: MetrajItem[]): number =>
+  Number(items
+    .filter(i => i.isDeduction && i.parentId === parent.id)
+    .reduce((sum, d) => sum + d.calculatedQuantity, parent.calculatedQuantity)
+    .toFixed(3));
 
-  items.forEach(item => {
-    if (item.category === 'Concrete' && item.unit === 'm3') {
-      if (!item.x || !item.y || !item.z) {
-        results.push({
-          itemId: item.id,
-          severity: Severity.CRITICAL,
-          message: `Beton metrajında (m3) boyutlardan biri eksik (X, Y veya Z). Poz: ${item.pozNumber}`,
-          standardReference: 'TS 500',
-          suggestedAction: 'Projedeki tüm geometrik boyutları kontrol edin.'
-        });
-      }
-    }
+/**
+ * Satırın türetilmiş alanlarını (Alan, Hacim, Hesaplanan Miktar) boyutlardan yeniden üretir.
+ * Satır üzerinde yapılan her düzenlemeden sonra çağrılmalıdır.
+ */
+export const recalculateItem = (item: MetrajItem): MetrajItem => ({
+  ...item,
+  area: (item.x || 0) * (item.y || 0),
+  volume: (item.x || 0) * (item.y || 0) * (item.z || 0),
+  calculatedQuantity: calculateQuantity(item)
+});
+
+export const DEFAULT_TOLERANCES: Record<string, ToleranceSetting> = {
+  default: { mode: 'absolute', value: 0.01 }
+};
+
+/**
+ * Manuel miktarın sistem hesabından tolerans dışında sapıp sapmadığını kontrol eder.
+ * Tolerans birim bazında mutlak (ör. 0.01) veya göreli (ör. 0.005 = %0,5) tanımlanabilir.
+ */
+export const isQuantityMismatch = (
+  item: MetrajItem,
+  tolerances: Record<string, ToleranceSetting> = DEFAULT_TOLERANCES,
+  computed: number = item.calculatedQuantity
+): boolean => {
+  const tolerance = tolerances[(item.unit || '').toLowerCase()] || tolerances.default || DEFAULT_TOLERANCES.default;
+  const diff = Math.abs(computed - item.totalQuantity);
+  return tolerance.mode === 'relative'
+    ? diff > Math.abs(computed) * tolerance.value
+    : diff > tolerance.value;
+};
 
+export const checkDeductionOrphans = ({ items, allItems }: RuleContext): RuleFinding[] => {
+  const ids = new Set(allItems.map(i => i.id));
+  return items
+    .filter(item => item.isDeduction && (!item.parentId || !ids.has(item.parentId)))
+    .map(item => ({
+      itemId: item.id,
+      message: `Düşüm satırının bağlı olduğu ana kalem bulunamadı. Poz: ${item.pozNumber}`,
+      standardReference: 'Metraj Düzeni',
+      suggestedAction: 'Düşüm satırını ilgili ana kalemin altına yeniden ekleyin.'
+    }));
+};
+
+export const checkDeductionsExceedParent = ({ items, allItems }: RuleContext): RuleFinding[] =>
+  items
+    .filter(item => !item.isDeduction && allItems.some(i => i.isDeduction && i.parentId === item.id) && getNetQuantity(item, allItems) < 0)
+    .map(item => ({
+      itemId: item.id,
+      message: `Düşümler ana kalemin miktarından büyük; net miktar negatif (${getNetQuantity(item, allItems)}). Poz: ${item.pozNumber}`,
+      standardReference: 'Matematiksel Doğrulama',
+      suggestedAction: 'Boşluk (kapı/pencere) düşüm boyutlarını kontrol edin.'
+    }));
+
+export const checkMissingDimensions = ({ items }: RuleContext): RuleFinding[] =>
+  items
+    .filter(item => !item.x || !item.y || !item.z)
+    .map(item => ({
+      itemId: item.id,
+      message: `Beton metrajında (m3) boyutlardan biri eksik (X, Y veya Z). Poz: ${item.pozNumber}`,
+      standardReference: 'TS 500',
+      suggestedAction: 'Projedeki tüm geometrik boyutları kontrol edin.'
+    }));
+
+export const checkQuantityMismatch = ({ items, params }: RuleContext): RuleFinding[] => {
+  const findings: RuleFinding[] = [];
+  items.forEach(item => {
     const computed = calculateQuantity(item);
-    if (Math.abs(computed - item.totalQuantity) > 0.01) {
-      results.push({
+    if (isQuantityMismatch(item, params.tolerances, computed)) {
+      findings.push({
         itemId: item.id,
-        severity: Severity.CRITICAL,
         message: `Hesaplama Uyuşmazlığı. Manuel: ${item.totalQuantity}, Sistem: ${computed}. Poz: ${item.pozNumber}`,
         standardReference: 'Matematiksel Doğrulama',
-        suggestedAction: 'Manuel girilen toplam miktarı sistem hesaplamasıyla eşitleyin.'
+        suggestedAction: 'Manuel girilen toplam miktarı sistem hesaplamasıyla eşitleyin.',
+        fix: { label: `Miktarı ${computed} yap`, patch: { totalQuantity: computed } }
+      });
+    }
+  });
+  return findings;
+};
+
+// Aynı poz, boyut ve konuma sahip satırlar mükerrer kabul edilir; ilk satır asıl sayılır.
+const duplicateKey = (item: MetrajItem): string => [
+  normalizePoz(item.pozNumber),
+  normalizeUnitKey(item.unit),
+  item.x, item.y, item.z, item.multiplier, item.count,
+  item.isDeduction ? item.parentId : '',
+  item.location?.block || '', item.location?.floor || '', item.location?.element || ''
+].join('|');
+
+export const checkDuplicateItems = ({ items }: RuleContext): RuleFinding[] => {
+  const seen = new Map<string, MetrajItem>();
+  const findings: RuleFinding[] = [];
+  items.forEach(item => {
+    if (item.category === 'Reinforcement' && item.rebar) return; // Çizelge satırları boyut taşımaz
+    const key = duplicateKey(item);
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, item);
+      return;
+    }
+    findings.push({
+      itemId: item.id,
+      message: `Mükerrer kayıt: aynı poz ve boyutlar daha önce girilmiş (${first.description || first.pozNumber}). Poz: ${item.pozNumber}`,
+      standardReference: 'Metraj Düzeni',
+      suggestedAction: 'Satır gerçekten ikinci bir eleman değilse silin.',
+      fix: { label: 'Mükerrer satırı sil', removeItem: true }
+    });
+  });
+  return findings;
+};
+
+export const CATEGORY_UNITS: Record<MetrajCategory, string[]> = {
+  Concrete: ['m3'],
+  Formwork: ['m2'],
+  Reinforcement: ['kg', 'ton'],
+  Finishing: []
+};
+
+export const checkUnitCategoryMismatch = ({ items }: RuleContext): RuleFinding[] =>
+  items
+    .filter(item => CATEGORY_UNITS[item.category]?.length && !CATEGORY_UNITS[item.category].includes(normalizeUnitKey(item.unit)))
+    .map(item => {
+      const expected = CATEGORY_UNITS[item.category];
+      return {
+        itemId: item.id,
+        message: `${item.category} kalemi "${item.unit}" biriminde girilmiş; beklenen: ${expected.join(' / ')}. Poz: ${item.pozNumber}`,
+        standardReference: 'Birim Tutarlılığı',
+        suggestedAction: 'Kalemin kategorisini veya birimini düzeltin.',
+        fix: { label: `Birimi ${expected[0]} yap`, patch: { unit: expected[0] } }
+      };
+    });
+
+const NUMERIC_FIELDS: (DimensionField | 'count')[] = ['x', 'y', 'z', 'multiplier', 'count'];
+
+// Birime göre hesaba giren boyutlar
+const requiredDimensions = (item: MetrajItem): DimensionField[] => {
+  const unit = normalizeUnitKey(item.unit);
+  if (unit === 'm3') return ['x', 'y', 'z'];
+  if (unit === 'm2') return ['x', 'y'];
+  return [];
+};
+
+export const checkNonPositiveDimensions = ({ items }: RuleContext): RuleFinding[] => {
+  const findings: RuleFinding[] = [];
+  items.forEach(item => {
+    // Düşüm satırları DEDUCTION_* kurallarıyla denetlenir; boyut kontrolü yalnızca ana kalemlere uygulanır.
+    if (item.isDeduction) return;
+    const negatives = NUMERIC_FIELDS.filter(f => (item[f] || 0) < 0);
+    if (negatives.length) {
+      const patch: Partial<MetrajItem> = {};
+      negatives.forEach(f => { patch[f] = Math.abs(item[f] || 0); });
+      findings.push({
+        itemId: item.id,
+        message: `Negatif boyut/çarpan (${negatives.join(', ')}). Düşümler için "Düşüm" satırı kullanılmalıdır. Poz: ${item.pozNumber}`,
+        standardReference: 'Matematiksel Doğrulama',
+        suggestedAction: 'Değerleri pozitif girin; boşlukları düşüm satırı olarak ekleyin.',
+        fix: { label: 'Mutlak değerleri al', patch }
+      });
+      return;
+    }
+    // Beton (m3) kalemlerinde eksik boyutu CONCRETE_MISSING_DIMENSION zaten bildirir.
+    if (item.category === 'Concrete' && normalizeUnitKey(item.unit) === 'm3') return;
+    const zeros = requiredDimensions(item).filter(f => !item[f]);
+    if (zeros.length) {
+      findings.push({
+        itemId: item.id,
+        message: `Sıfır boyut (${zeros.join(', ')}); hesaplanan miktar 0. Poz: ${item.pozNumber}`,
+        standardReference: 'Matematiksel Doğrulama',
+        suggestedAction: 'Eksik boyutu girin veya satır gereksizse silin.',
+        fix: { label: 'Satırı sil', removeItem: true }
       });
     }
   });
+  return findings;
+};
 
-  return results;
+export type DimensionLimits = Partial<Record<StructuralElement | 'default', Partial<Record<'x' | 'y' | 'z', number>>>>;
+
+// Eleman tipine göre makul üst sınırlar (m). Aşan ve 100'e bölündüğünde sınıra giren değerler cm olarak girilmiş sayılır.
+export const DEFAULT_DIMENSION_LIMITS: DimensionLimits = {
+  SLAB: { z: 1 },
+  BEAM: { y: 1.5, z: 2.5 },
+  COLUMN: { x: 2.5, y: 2.5 },
+  WALL: { y: 1 },
+  FOUNDATION: { z: 4 },
+  STAIR: { z: 1 },
+  default: { z: 10 }
+};
+
+export const checkCentimeterAsMeter = ({ items, params }: RuleContext): RuleFinding[] => {
+  const limits: DimensionLimits = params.limits || DEFAULT_DIMENSION_LIMITS;
+  const findings: RuleFinding[] = [];
+  items.forEach(item => {
+    if (!requiredDimensions(item).length) return;
+    const element = item.location?.element || detectElement(item.description || '');
+    const bounds = { ...limits.default, ...(element ? limits[element] : undefined) };
+    const suspects = (Object.keys(bounds) as ('x' | 'y' | 'z')[])
+      .filter(f => requiredDimensions(item).includes(f))
+      .filter(f => (item[f] || 0) > bounds[f]! && (item[f] || 0) / 100 <= bounds[f]!);
+    if (!suspects.length) return;
+    const patch: Partial<MetrajItem> = {};
+    suspects.forEach(f => { patch[f] = Number(((item[f] || 0) / 100).toFixed(3)); });
+    findings.push({
+      itemId: item.id,
+      message: `${suspects.map(f => `${f.toUpperCase()}=${item[f]}`).join(', ')} ${element ? `(${element}) ` : ''}için olağan dışı büyük; değer cm olarak girilmiş olabilir. Poz: ${item.pozNumber}`,
+      standardReference: 'Birim Tutarlılığı',
+      suggestedAction: 'Boyutları metre cinsinden girin.',
+      fix: { label: `${suspects.map(f => `${f.toUpperCase()}=${patch[f]}`).join(', ')} yap`, patch }
+    });
+  });
+  return findings;
 };
+
+export const checkLargeMultiplier = ({ items, params }: RuleContext): RuleFinding[] =>
+  items
+    .filter(item => (item.multiplier || 1) > (params.max ?? 200))
+    .map(item => ({
+      itemId: item.id,
+      message: `Çarpan (${item.multiplier}) olağan dışı büyük. Poz: ${item.pozNumber}`,
+      standardReference: 'Matematiksel Doğrulama',
+      suggestedAction: 'Çarpanın ondalık ayıracı kaybolmuş veya adetle çift sayılmış olabilir; projeden kontrol edin.',
+      fix: { label: 'Çarpanı 1 yap', patch: { multiplier: 1 } }
+    }));
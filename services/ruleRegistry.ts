@@ -0,0 +1,345 @@
+
+import { MetrajItem, Project, PriceCatalog, ProjectRuleConfig, RuleCondition, RuleContext, RuleDefinition, RuleFinding, ValidationResult, Severity } from '../types';
+import {
+  checkDeductionOrphans, checkDeductionsExceedParent, checkMissingDimensions, checkQuantityMismatch, DEFAULT_TOLERANCES,
+  checkDuplicateItems, checkUnitCategoryMismatch, checkNonPositiveDimensions, checkCentimeterAsMeter, checkLargeMultiplier, DEFAULT_DIMENSION_LIMITS
+} from './ruleEngine';
+import { checkRebarRatio, REBAR_RATIO_RANGE } from './rebarService';
+import { checkUnknownPoz, checkCatalogUnitMismatch, normalizeUnitKey } from './priceCatalog';
+import { checkCumulativeExceedsContract } from './hakedisService';
+import { checkFormworkConcreteRatio, checkRebarConcreteRatio, checkConcreteWithoutFormwork, FORMWORK_RATIO_RANGES, REBAR_RATIO_RANGES } from './consistencyService';
+
+/**
+ * KURAL KAYDI
+ * Yerleşik kurallar kod ile, şirkete özel kurallar ise veri (JSON) ile tanımlanır. Her kural proje bazında
+ * kapatılabilir ve parametreleri (ör. tolerans) proje ayarlarıyla ezilebilir.
+ */
+
+type RuleCheck = (ctx: RuleContext) => RuleFinding[];
+
+interface BuiltInRule {
+  definition: RuleDefinition;
+  check: RuleCheck;
+}
+
+const BUILT_IN_RULES: BuiltInRule[] = [
+  {
+    definition: {
+      id: 'CONCRETE_MISSING_DIMENSION',
+      description: 'Beton (m3) kalemlerinde X, Y ve Z boyutlarının tamamı girilmiş olmalıdır.',
+      severity: Severity.CRITICAL,
+      scope: 'item',
+      categories: ['Concrete'],
+      units: ['m3']
+    },
+    check: checkMissingDimensions
+  },
+  {
+    definition: {
+      id: 'QUANTITY_MISMATCH',
+      description: 'Manuel miktar, boyutlardan hesaplanan miktarla tolerans içinde eşleşmelidir.',
+      severity: Severity.CRITICAL,
+      scope: 'item',
+      params: { tolerances: DEFAULT_TOLERANCES }
+    },
+    check: checkQuantityMismatch
+  },
+  {
+    definition: {
+      id: 'DEDUCTION_ORPHAN',
+      description: 'Her düşüm (eksi) satırı mevcut bir ana kaleme bağlı olmalıdır.',
+      severity: Severity.WARNING,
+      scope: 'item'
+    },
+    check: checkDeductionOrphans
+  },
+  {
+    definition: {
+      id: 'DEDUCTION_EXCEEDS_PARENT',
+      description: 'Düşümlerin toplamı ana kalemin miktarını aşmamalıdır.',
+      severity: Severity.CRITICAL,
+      scope: 'item'
+    },
+    check: checkDeductionsExceedParent
+  },
+  {
+    definition: {
+      id: 'DUPLICATE_ITEM',
+      description: 'Aynı poz, boyut ve konuma sahip satırlar iki kez girilmemelidir.',
+      severity: Severity.WARNING,
+      scope: 'item'
+    },
+    check: checkDuplicateItems
+  },
+  {
+    definition: {
+      id: 'UNIT_CATEGORY_MISMATCH',
+      description: 'Beton m3, kalıp m2, donatı kg/ton biriminde olmalıdır.',
+      severity: Severity.CRITICAL,
+      scope: 'item'
+    },
+    check: checkUnitCategoryMismatch
+  },
+  {
+    definition: {
+      id: 'NON_POSITIVE_DIMENSION',
+      description: 'Boyutlar ve çarpanlar negatif, hesaba giren boyutlar sıfır olmamalıdır.',
+      severity: Severity.CRITICAL,
+      scope: 'item'
+    },
+    check: checkNonPositiveDimensions
+  },
+  {
+    definition: {
+      id: 'CM_AS_M',
+      description: 'Eleman tipine göre olağan dışı büyük boyutlar (ör. döşeme kalınlığı 25) cm olarak girilmiş olabilir.',
+      severity: Severity.WARNING,
+      scope: 'item',
+      params: { limits: DEFAULT_DIMENSION_LIMITS }
+    },
+    check: checkCentimeterAsMeter
+  },
+  {
+    definition: {
+      id: 'LARGE_MULTIPLIER',
+      description: 'Çarpan makul üst sınırı aşmamalıdır.',
+      severity: Severity.WARNING,
+      scope: 'item',
+      params: { max: 200 }
+    },
+    check: checkLargeMultiplier
+  },
+  {
+    definition: {
+      id: 'REBAR_RATIO',
+      description: 'Toplam donatı ağırlığının beton hacmine oranı (kg/m³) olağan aralıkta olmalıdır.',
+      severity: Severity.WARNING,
+      scope: 'project',
+      params: { ...REBAR_RATIO_RANGE }
+    },
+    check: checkRebarRatio
+  },
+  {
+    definition: {
+      id: 'FORMWORK_CONCRETE_RATIO',
+      description: 'Aynı elemana ait kalıp alanının beton hacmine oranı (m²/m³) eleman tipine göre olağan aralıkta olmalıdır.',
+      severity: Severity.WARNING,
+      scope: 'project',
+      params: { ranges: FORMWORK_RATIO_RANGES }
+    },
+    check: checkFormworkConcreteRatio
+  },
+  {
+    definition: {
+      id: 'ELEMENT_REBAR_RATIO',
+      description: 'Aynı elemana ait donatı ağırlığının beton hacmine oranı (kg/m³) eleman tipine göre olağan aralıkta olmalıdır.',
+      severity: Severity.WARNING,
+      scope: 'project',
+      params: { ranges: REBAR_RATIO_RANGES }
+    },
+    check: checkRebarConcreteRatio
+  },
+  {
+    definition: {
+      id: 'CONCRETE_WITHOUT_FORMWORK',
+      description: 'Betonu metrajı alınan her elemanın kalıp metrajı da bulunmalıdır.',
+      severity: Severity.WARNING,
+      scope: 'project',
+      params: { exemptElements: ['OTHER'] }
+    },
+    check: checkConcreteWithoutFormwork
+  },
+  {
+    definition: {
+      id: 'CATALOG_UNKNOWN_POZ',
+      description: 'Poz numarası seçili birim fiyat kataloğunda bulunmalıdır.',
+      severity: Severity.WARNING,
+      scope: 'item'
+    },
+    check: checkUnknownPoz
+  },
+  {
+    definition: {
+      id: 'CATALOG_UNIT_MISMATCH',
+      description: 'Kalem birimi, katalogdaki poz birimiyle aynı olmalıdır.',
+      severity: Severity.CRITICAL,
+      scope: 'item'
+    },
+    check: checkCatalogUnitMismatch
+  },
+  {
+    definition: {
+      id: 'HAKEDIS_EXCEEDS_CONTRACT',
+      description: 'Hakediş dönemlerinin kümülatif miktarı keşif miktarını aşmamalıdır.',
+      severity: Severity.CRITICAL,
+      scope: 'project'
+    },
+    check: checkCumulativeExceedsContract
+  }
+];
+
+const BUILT_IN_CHECKS = new Map(BUILT_IN_RULES.map(r => [r.definition.id, r.check] as [string, RuleCheck]));
+
+export const getRuleDefinitions = (customRules: RuleDefinition[] = []): RuleDefinition[] => [
+  ...BUILT_IN_RULES.map(r => ({ ...r.definition, builtIn: true })),
+  ...customRules
+];
+
+export const EMPTY_RULE_CONFIG: ProjectRuleConfig = { disabledRules: [], params: {} };
+
+// Koşullarda kalem alanlarına ek olarak kullanılabilen türetilmiş alanlar.
+const readField = (item: MetrajItem, field: string): any => {
+  switch (field) {
+    case 'difference': return item.totalQuantity - item.calculatedQuantity;
+    case 'relativeDifference': return item.calculatedQuantity ? (item.totalQuantity - item.calculatedQuantity) / item.calculatedQuantity : 0;
+    case 'block': return item.location?.block;
+    case 'floor': return item.location?.floor;
+    case 'element': return item.location?.element;
+    default: return (item as any)[field];
+  }
+};
+
+export const evaluateCondition = (condition: RuleCondition, item: MetrajItem): boolean => {
+  if (condition.all) return condition.all.every(c => evaluateCondition(c, item));
+  if (condition.any) return condition.any.some(c => evaluateCondition(c, item));
+  if (condition.not) return !evaluateCondition(condition.not, item);
+
+  const actual = readField(item, condition.field || '');
+  const expected = condition.value;
+  switch (condition.op) {
+    case 'eq': return actual == expected;
+    case 'ne': return actual != expected;
+    case 'gt': return Number(actual) > Number(expected);
+    case 'gte': return Number(actual) >= Number(expected);
+    case 'lt': return Number(actual) < Number(expected);
+    case 'lte': return Number(actual) <= Number(expected);
+    case 'empty': return actual === undefined || actual === null || actual === '' || actual === 0;
+    case 'notEmpty': return !(actual === undefined || actual === null || actual === '' || actual === 0);
+    case 'matches': return new RegExp(String(expected), 'i').test(String(actual ?? ''));
+    case 'in': return Array.isArray(expected) && expected.includes(actual);
+    default: return false;
+  }
+};
+
+const fillTemplate = (template: string, item: MetrajItem): string =>
+  template.replace(/\{(\w+)\}/g, (_, field) => String(readField(item, field) ?? ''));
+
+const runDeclarativeRule = (rule: RuleDefinition, items: MetrajItem[]): RuleFinding[] =>
+  items
+    .filter(item => rule.condition && evaluateCondition(rule.condition, item))
+    .map(item => ({
+      itemId: item.id,
+      message: fillTemplate(rule.message || rule.description, item),
+      standardReference: rule.standardReference || rule.id,
+      suggestedAction: rule.suggestedAction ? fillTemplate(rule.suggestedAction, item) : ''
+    }));
+
+const OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'empty', 'notEmpty', 'matches', 'in'];
+
+const validateCondition = (condition: any, path: string, errors: string[]) => {
+  if (!condition || typeof condition !== 'object') {
+    errors.push(`${path}: koşul bir nesne olmalıdır.`);
+    return;
+  }
+  if (condition.all || condition.any) {
+    const list = condition.all || condition.any;
+    if (!Array.isArray(list)) errors.push(`${path}: all/any bir dizi olmalıdır.`);
+    else list.forEach((c: any, i: number) => validateCondition(c, `${path}[${i}]`, errors));
+  } else if (condition.not) {
+    validateCondition(condition.not, `${path}.not`, errors);
+  } else {
+    if (!condition.field) errors.push(`${path}: "field" eksik.`);
+    if (!OPERATORS.includes(condition.op)) errors.push(`${path}: geçersiz operatör "${condition.op}".`);
+    if (condition.op === 'matches') {
+      try {
+        new RegExp(String(condition.value), 'i');
+      } catch {
+        errors.push(`${path}: geçersiz düzenli ifade "${condition.value}".`);
+      }
+    }
+    if (condition.op === 'in' && !Array.isArray(condition.value)) errors.push(`${path}: "in" için "value" bir dizi olmalıdır.`);
+  }
+};
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Özel kural tanımlarını doğrular ve hata listesini döndürür; içe aktarmada ve yedekten geri yüklemede kullanılır.
+ */
+export const validateRuleDefinitions = (list: any[], existingIds: string[] = []): string[] => {
+  const errors: string[] = [];
+  const reserved = new Set([...BUILT_IN_CHECKS.keys(), ...existingIds]);
+  list.forEach((rule: any, i: number) => {
+    const path = `#${i + 1}`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${path}: kural bir nesne olmalıdır.`);
+      return;
+    }
+    if (!rule.id || typeof rule.id !== 'string') errors.push(`${path}: "id" eksik.`);
+    else if (reserved.has(rule.id)) errors.push(`${path}: "${rule.id}" kimliği zaten kullanılıyor.`);
+    if (!rule.description) errors.push(`${path}: "description" eksik.`);
+    if (!Object.values(Severity).includes(rule.severity)) errors.push(`${path}: severity CRITICAL, WARNING veya INFO olmalıdır.`);
+    if (rule.units !== undefined && !isStringArray(rule.units)) errors.push(`${path}: "units" metin dizisi olmalıdır.`);
+    if (rule.categories !== undefined && !isStringArray(rule.categories)) errors.push(`${path}: "categories" metin dizisi olmalıdır.`);
+    validateCondition(rule.condition, `${path}.condition`, errors);
+    if (rule.id) reserved.add(rule.id);
+  });
+  return errors;
+};
+
+/**
+ * JSON metninden kural tanımlarını okur (tek nesne veya dizi). Hatalı tanımlarda açıklayıcı bir hata fırlatır.
+ */
+export const parseRuleDefinitions = (text: string, existingIds: string[] = []): RuleDefinition[] => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Geçersiz JSON.');
+  }
+  const list = Array.isArray(raw) ? raw : [raw];
+  const errors = validateRuleDefinitions(list, existingIds);
+  if (errors.length) throw new Error(errors.join('\n'));
+  return list.map((rule: any) => ({ ...rule, scope: 'item', builtIn: false }));
+};
+
+const isApplicable = (rule: RuleDefinition, item: MetrajItem): boolean =>
+  (!rule.categories?.length || rule.categories.includes(item.category)) &&
+  (!rule.units?.length || rule.units.some(u => normalizeUnitKey(u) === normalizeUnitKey(item.unit)));
+
+/**
+ * Projeye etkin tüm kuralları uygular. Kapalı kurallar atlanır; proje parametreleri varsayılanların üzerine yazılır.
+ * Konuma göre daraltılmış denetimlerde `fullProject` verilir; düşüm ve hakediş kontrolleri kapsam dışındaki kalemleri de görür.
+ */
+export const runRules = (
+  project: Project,
+  options: { catalog?: PriceCatalog | null, customRules?: RuleDefinition[], fullProject?: Project } = {}
+): ValidationResult[] => {
+  const config = project.ruleConfig || EMPTY_RULE_CONFIG;
+  const results: ValidationResult[] = [];
+
+  getRuleDefinitions(options.customRules).forEach(rule => {
+    if (config.disabledRules.includes(rule.id)) return;
+    // Kayıtlı hatalı bir kural (ör. eski sürümde doğrulanmadan eklenmiş) diğer kuralları ve arayüzü durdurmamalıdır.
+    try {
+      const items = rule.scope === 'item' ? project.items.filter(item => isApplicable(rule, item)) : project.items;
+      const ctx: RuleContext = {
+        project,
+        items,
+        allItems: (options.fullProject || project).items,
+        catalog: options.catalog,
+        params: { ...rule.params, ...config.params[rule.id] }
+      };
+      const check = BUILT_IN_CHECKS.get(rule.id);
+      const findings = check ? check(ctx) : runDeclarativeRule(rule, items);
+      findings.forEach(f => results.push({ ...f, ruleId: rule.id, severity: rule.severity }));
+    } catch (err) {
+      console.error(`Kural çalıştırılamadı: ${rule.id}`, err);
+    }
+  });
+
+  return results;
+};
+
+export const isFindingMuted = (result: ValidationResult, project?: Project): boolean =>
+  !!project?.mutedFindings?.some(m => m.ruleId === result.ruleId && m.itemId === result.itemId);
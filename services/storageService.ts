@@ -0,0 +1,279 @@
+
+import { AuditRecord, MappingTemplate, PriceCatalog, Project, ProjectRevision, RuleDefinition, UserSettings } from '../types';
+import { migrateProject, migrateAuditRecord } from './backupService';
+
+/**
+ * KALICI DEPOLAMA
+ * Projeler, denetim kayıtları ve proje revizyonları IndexedDB'de kayıt bazında tutulur; yalnızca değişen kayıtlar
+ * yazılır. Revizyonlar proje kaydına gömülmez, böylece her düzenlemede tüm revizyon kalemleri yeniden yazılmaz. IndexedDB
+ * kullanılamayan tarayıcılarda aynı arayüzü sağlayan localStorage deposuna düşülür. Eski "metraj_*" anahtarlarındaki
+ * veriler ilk açılışta bir kez IndexedDB'ye taşınır.
+ */
+
+export type RecordStore = 'projects' | 'audits' | 'revisions';
+export type SettingKey = 'settings' | 'catalogs' | 'rules' | 'mappingTemplates';
+
+export interface WorkspaceData {
+  projects: Project[];
+  auditHistory: AuditRecord[];
+  revisions: ProjectRevision[];
+  settings?: UserSettings;
+  catalogs?: PriceCatalog[];
+  rules?: RuleDefinition[];
+  mappingTemplates?: MappingTemplate[];
+}
+
+export interface StorageUsage {
+  backend: 'indexedDB' | 'localStorage';
+  usage: number; // bayt
+  quota?: number; // bayt; tarayıcı bildirmiyorsa yok
+}
+
+export interface StorageBackend {
+  kind: StorageUsage['backend'];
+  load: () => Promise<WorkspaceData>;
+  putRecords: (store: RecordStore, records: { id: string }[]) => Promise<void>;
+  deleteRecords: (store: RecordStore, ids: string[]) => Promise<void>;
+  putSetting: (key: SettingKey, value: any) => Promise<void>;
+  clear: () => Promise<void>;
+  usage: () => Promise<StorageUsage>;
+}
+
+const LEGACY_KEYS: Record<RecordStore | SettingKey, string> = {
+  projects: 'metraj_projects',
+  audits: 'metraj_history',
+  revisions: 'metraj_revisions',
+  settings: 'metraj_settings',
+  catalogs: 'metraj_catalogs',
+  rules: 'metraj_rules',
+  mappingTemplates: 'metraj_mapping_templates'
+};
+
+const RECORD_STORES: RecordStore[] = ['projects', 'audits', 'revisions'];
+const SETTING_KEYS: SettingKey[] = ['settings', 'catalogs', 'rules', 'mappingTemplates'];
+
+const readLegacy = (key: string): any => {
+  const saved = localStorage.getItem(key);
+  return saved ? JSON.parse(saved) : undefined;
+};
+
+// Kayıtlar her yüklemede güncel şemaya taşınır; denetimler en yeniden eskiye, revizyonlar eskiden yeniye sıralanır.
+const normalizeWorkspace = (data: WorkspaceData): WorkspaceData => ({
+  ...data,
+  projects: [...data.projects].sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt))).map(migrateProject),
+  auditHistory: [...data.auditHistory].sort((a, b) => String(b.date).localeCompare(String(a.date))).map(migrateAuditRecord),
+  revisions: [...data.revisions].sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)))
+});
+
+const DB_NAME = 'metraj';
+const DB_VERSION = 2; // v2: revisions deposu
+const SETTINGS_STORE = 'settings';
+const MIGRATION_MARKER = 'legacyMigrated';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Depolama işlemi iptal edildi.'));
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    RECORD_STORES.forEach(store => {
+      if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+    });
+    if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+  };
+  // Eski sürümle açık başka bir sekme yükseltmeyi bekletirse yükleme sonsuza dek asılı kalmaz; hata ekranı gösterilir.
+  request.onblocked = () => reject(new Error('Depolama güncellemesi başka bir sekmede açık olan uygulama tarafından engelleniyor. Diğer sekmeleri kapatıp sayfayı yeniden yükleyin.'));
+  request.onsuccess = () => {
+    const db = request.result;
+    // Başka bir sekme daha yeni bir sürüme yükseltirken bağlantı bırakılır; aksi halde o sekme engellenir.
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * localStorage'daki eski verileri tek işlemde IndexedDB'ye yazar; işlem tamamlandıktan sonra eski anahtarlar silinir.
+ */
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+  if (await promisify(db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE).get(MIGRATION_MARKER))) return;
+  const tx = db.transaction([...RECORD_STORES, SETTINGS_STORE], 'readwrite');
+  const settings = tx.objectStore(SETTINGS_STORE);
+  RECORD_STORES.forEach(store => {
+    (readLegacy(LEGACY_KEYS[store]) || []).forEach((record: any) => tx.objectStore(store).put(record));
+  });
+  SETTING_KEYS.forEach(key => {
+    const value = readLegacy(LEGACY_KEYS[key]);
+    if (value !== undefined) settings.put(value, key);
+  });
+  settings.put(true, MIGRATION_MARKER);
+  await transactionDone(tx);
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+export const createIndexedDbStorage = (): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ||= openDatabase());
+
+  const write = async (stores: string[], apply: (tx: IDBTransaction) => void) => {
+    const tx = (await db()).transaction(stores, 'readwrite');
+    apply(tx);
+    await transactionDone(tx);
+  };
+
+  return {
+    kind: 'indexedDB',
+    load: async () => {
+      const database = await db();
+      await migrateLegacyStorage(database);
+      const tx = database.transaction([...RECORD_STORES, SETTINGS_STORE], 'readonly');
+      const [projects, auditHistory, revisions, ...settings] = await Promise.all([
+        promisify(tx.objectStore('projects').getAll()),
+        promisify(tx.objectStore('audits').getAll()),
+        promisify(tx.objectStore('revisions').getAll()),
+        ...SETTING_KEYS.map(key => promisify(tx.objectStore(SETTINGS_STORE).get(key)))
+      ]);
+      const [userSettings, catalogs, rules, mappingTemplates] = settings;
+      return normalizeWorkspace({ projects, auditHistory, revisions, settings: userSettings, catalogs, rules, mappingTemplates });
+    },
+    putRecords: (store, records) => write([store], tx => records.forEach(r => tx.objectStore(store).put(r))),
+    deleteRecords: (store, ids) => write([store], tx => ids.forEach(id => tx.objectStore(store).delete(id))),
+    putSetting: (key, value) => write([SETTINGS_STORE], tx => tx.objectStore(SETTINGS_STORE).put(value, key)),
+    // Taşıma işareti korunur; aksi halde bir sonraki açılışta silinmiş eski veriler tekrar aranır.
+    clear: () => write([...RECORD_STORES, SETTINGS_STORE], tx => {
+      RECORD_STORES.forEach(store => tx.objectStore(store).clear());
+      SETTING_KEYS.forEach(key => tx.objectStore(SETTINGS_STORE).delete(key));
+    }),
+    usage: async () => {
+      const estimate = await navigator.storage?.estimate?.();
+      return { backend: 'indexedDB', usage: estimate?.usage || 0, quota: estimate?.quota };
+    }
+  };
+};
+
+// Tarayıcıların localStorage için ayırdığı yaklaşık kota.
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+/**
+ * IndexedDB bulunmadığında kullanılan depo: eski anahtar düzenini korur, her yazımda ilgili dizinin tamamını kaydeder.
+ */
+export const createLocalStorageBackend = (): StorageBackend => {
+  const cache: Record<RecordStore, Map<string, any>> = { projects: new Map(), audits: new Map(), revisions: new Map() };
+  const persist = (store: RecordStore) => localStorage.setItem(LEGACY_KEYS[store], JSON.stringify([...cache[store].values()]));
+
+  return {
+    kind: 'localStorage',
+    load: async () => {
+      RECORD_STORES.forEach(store => {
+        cache[store] = new Map((readLegacy(LEGACY_KEYS[store]) || []).map((r: any) => [r.id, r]));
+      });
+      return normalizeWorkspace({
+        projects: [...cache.projects.values()],
+        auditHistory: [...cache.audits.values()],
+        revisions: [...cache.revisions.values()],
+        settings: readLegacy(LEGACY_KEYS.settings),
+        catalogs: readLegacy(LEGACY_KEYS.catalogs),
+        rules: readLegacy(LEGACY_KEYS.rules),
+        mappingTemplates: readLegacy(LEGACY_KEYS.mappingTemplates)
+      });
+    },
+    putRecords: async (store, records) => {
+      records.forEach(r => cache[store].set(r.id, r));
+      persist(store);
+    },
+    deleteRecords: async (store, ids) => {
+      ids.forEach(id => cache[store].delete(id));
+      persist(store);
+    },
+    putSetting: async (key, value) => localStorage.setItem(LEGACY_KEYS[key], JSON.stringify(value)),
+    clear: async () => {
+      RECORD_STORES.forEach(store => cache[store].clear());
+      Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    },
+    usage: async () => ({
+      backend: 'localStorage',
+      // localStorage metni UTF-16 olarak saklar.
+      usage: Object.values(LEGACY_KEYS).reduce((sum, key) => sum + (localStorage.getItem(key)?.length || 0) * 2, 0),
+      quota: LOCAL_STORAGE_QUOTA
+    })
+  };
+};
+
+export const createStorage = (): StorageBackend =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : createLocalStorageBackend();
+
+export interface RecordSync<T extends { id: string }> {
+  prime: (records: T[]) => void;
+  schedule: (records: T[]) => void;
+  flush: () => Promise<void>;
+}
+
+export interface RecordSyncOptions {
+  delay?: number; // Ardışık değişikliklerin birleştirildiği bekleme (ms)
+  retryDelay?: number; // Başarısız yazımın yeniden deneme aralığı (ms)
+  onError?: (error: unknown | null) => void; // Yazım hatasında hata, ardından ilk başarılı yazımda null ile çağrılır
+}
+
+/**
+ * Kayıt dizisini depoyla eşitler: nesne kimliği değişen kayıtlar yazılır, dizide olmayanlar silinir. Ardışık
+ * değişiklikler (ör. tuş vuruşları) gecikmeli tek yazımda birleştirilir. Başarısız yazım bildirilir ve yeni bir
+ * değişiklik beklenmeden zamanlayıcıyla yeniden denenir.
+ */
+export const createRecordSync = <T extends { id: string }>(
+  backend: StorageBackend,
+  store: RecordStore,
+  { delay = 400, retryDelay = 5000, onError }: RecordSyncOptions = {}
+): RecordSync<T> => {
+  let written = new Map<string, T>();
+  let pending: T[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let failing = false;
+
+  const flush = async () => {
+    clearTimeout(timer);
+    if (!pending) return;
+    const next = pending;
+    const previous = written;
+    pending = null;
+    const ids = new Set(next.map(r => r.id));
+    const changed = next.filter(r => previous.get(r.id) !== r);
+    const removed = [...previous.keys()].filter(id => !ids.has(id));
+    written = new Map(next.map(r => [r.id, r]));
+    try {
+      if (changed.length) await backend.putRecords(store, changed);
+      if (removed.length) await backend.deleteRecords(store, removed);
+      if (failing) {
+        failing = false;
+        onError?.(null);
+      }
+    } catch (err) {
+      // Bu arada yeni değişiklik gelmediyse aynı dizi yeniden denenir.
+      written = previous;
+      pending ||= next;
+      clearTimeout(timer);
+      timer = setTimeout(flush, retryDelay);
+      failing = true;
+      console.error(err);
+      onError?.(err);
+    }
+  };
+
+  return {
+    prime: records => { written = new Map(records.map(r => [r.id, r])); },
+    schedule: records => {
+      pending = records;
+      clearTimeout(timer);
+      timer = setTimeout(flush, delay);
+    },
+    flush
+  };
+};
@@ -25,6 +25,7 @@ export const translations = {
     valid: "UYGUN",
     riskProfile: "Risk Profili",
     keyFindings: "Temel Bulgular",
+    latestAiFindings: "Son AI Denetiminin Bulguları",
     aiAnalyzing: "AI Danışmanı dosyaları inceliyor...",
     noData: "Henüz veri yok. Denetimi başlatın.",
     addRow: "Satır Ekle",
@@ -80,7 +81,193 @@ export const translations = {
     quickAdd: "Kaydet",
     dimX: "X (m)",
     dimY: "Y (m)",
-    dimZ: "Z (m)"
+    dimZ: "Z (m)",
+    rowsSelected: "satır seçildi",
+    applyBulkEdit: "Toplu Uygula",
+    deleteSelected: "Seçilenleri Sil",
+    undo: "Geri Al",
+    redo: "Yinele",
+    changeHistory: "Değişiklik Geçmişi",
+    currentState: "Mevcut Durum",
+    historyAdded: "Eklendi",
+    historyEdited: "Düzenlendi",
+    historyDeleted: "Silindi",
+    historyBulkEdit: "Toplu düzenleme",
+    historyImport: "Excel import",
+    historyRows: "satır",
+    costEstimate: "Keşif Bedeli",
+    unknownPozes: "poz katalogda bulunamadı",
+    noCatalog: "Katalog yüklenmedi",
+    unitPrice: "Birim Fiyat",
+    amount: "Tutar",
+    subtotal: "Ara Toplam",
+    grandTotal: "Genel Toplam",
+    priceCatalogs: "Birim Fiyat Katalogları",
+    importCatalog: "Katalog Yükle (Excel/CSV)",
+    hakedis: "Hakediş",
+    revisions: "Revizyonlar",
+    guideRevisions: "Çizim revizyonlarında metrajın o anki halini adlandırarak kaydedin. Revizyonları salt okunur inceleyin, herhangi ikisini poz ve kategori toplamı düzeyinde karşılaştırın veya eski bir revizyondan yeni çalışma kopyası oluşturun.",
+    saveRevision: "Revizyon Kaydet",
+    revisionNamePlaceholder: "ör. Rev-A ihale",
+    noRevisions: "Henüz revizyon kaydedilmedi.",
+    viewRevision: "İncele",
+    branchRevision: "Kopya Oluştur",
+    deleteRevisionConfirm: "revizyon silinsin mi?",
+    readOnly: "Salt Okunur",
+    currentWorkingCopy: "Güncel Çalışma",
+    compareRevisions: "Revizyon Karşılaştırma",
+    selectTwoRevisions: "Karşılaştırmak için iki farklı revizyon seçin.",
+    categoryTotals: "Kategori Toplamları",
+    pozDeltas: "Poz Bazında Miktar Farkları",
+    noQuantityChanges: "Poz miktarlarında değişiklik yok.",
+    before: "Önce",
+    after: "Sonra",
+    guideHakedis: "Ödeme dönemlerini tanımlayın ve her dönemde yapılan imalat miktarını poz bazında girin. Kümülatif miktarlar keşif miktarını aşarsa uyarılırsınız.",
+    newPeriod: "Yeni Dönem",
+    noPeriods: "Henüz hakediş dönemi tanımlanmadı.",
+    periodName: "Nolu Hakediş",
+    periodTitle: "Dönem Adı",
+    periodStart: "Başlangıç",
+    periodEnd: "Bitiş",
+    contractQty: "Keşif Miktarı",
+    previousCumulative: "Önceki Kümülatif",
+    thisPeriod: "Bu Dönem",
+    totalCumulative: "Toplam Kümülatif",
+    remaining: "Kalan",
+    rebarMode: "Donatı çizelgesi modu (çap / boy / adet)",
+    rebarModeShort: "Çizelge",
+    rebarDiameter: "Çap",
+    rebarShape: "Şekil",
+    rebarCount: "Çubuk Adedi",
+    rebarLength: "Toplam Boy (m)",
+    rebarSummary: "Çap Bazında Donatı Özeti",
+    shapeSTRAIGHT: "Düz",
+    shapeL: "L (Filiz)",
+    shapeU: "U (Firkete)",
+    shapeSTIRRUP: "Etriye",
+    deduction: "Eksi",
+    addDeduction: "Düşüm (eksi) satırı ekle",
+    net: "Net",
+    location: "Konum",
+    block: "Blok",
+    floor: "Kat",
+    element: "Eleman",
+    unassigned: "Atanmamış",
+    allLocations: "Tüm Proje",
+    groupByLocation: "Konuma Göre Grupla",
+    elementFOUNDATION: "Temel",
+    elementCOLUMN: "Kolon",
+    elementWALL: "Perde/Duvar",
+    elementBEAM: "Kiriş",
+    elementSLAB: "Döşeme",
+    elementSTAIR: "Merdiven",
+    elementOTHER: "Diğer",
+    ruleSettings: "Kural Ayarları",
+    muteFinding: "Sustur",
+    muteJustification: "Bu bulguyu susturma gerekçesi:",
+    mutedFindings: "Susturulan Bulgular",
+    unmute: "Geri Aç",
+    customRule: "Özel",
+    customRules: "Şirkete Özel Kurallar",
+    customRulesHint: "Kuralları JSON olarak tanımlayın (tek nesne veya dizi). Koşullarda kalem alanları ile difference, relativeDifference, block, floor, element kullanılabilir.",
+    addRules: "Kural Ekle",
+    applyFix: "Düzelt",
+    historyFixed: "Düzeltme uygulandı",
+    removeItemFixConfirm: "Bu düzeltme satırı (ve bağlı düşüm satırlarını) silecek. Devam edilsin mi?",
+    linkItems: "Bağla",
+    unlinkItems: "Bağlantıyı Kaldır",
+    linkGroup: "Bağlantı grubu",
+    historyLinked: "Bağlandı",
+    historyUnlinked: "Bağlantı kaldırıldı",
+    relatedItems: "İlgili kalemler",
+    sheet: "Sayfa",
+    sheetsFound: "sayfa bulundu. Aktarılacak sayfaları seçin.",
+    selectSheets: "Sayfa Seçimi",
+    analyzeSheets: "Seçili Sayfaları Analiz Et",
+    sharedMapping: "Ortak eşleşme",
+    sheetAsLocation: "Sayfa adını konum olarak kullan",
+    mappingSource: "Eşleşme kaynağı",
+    mappingSourceTEMPLATE: "Şablon",
+    mappingSourceLOCAL: "Yerel",
+    mappingSourceAI: "AI",
+    mappingSourceMANUAL: "Manuel",
+    localConfidence: "Yerel eşleştirici güveni",
+    template: "Şablon",
+    templateName: "Şablon adı (ör. yüklenici veya dosya formatı):",
+    saveTemplate: "Şablon Olarak Kaydet",
+    mappingTemplates: "Kolon Eşleşme Şablonları",
+    noMappingTemplates: "Kayıtlı şablon yok. İçe aktarım penceresinden eşleşmeyi şablon olarak kaydedebilirsiniz.",
+    reviewChanges: "Farkları İncele",
+    applyChanges: "Seçili Değişiklikleri Uygula",
+    back: "Geri",
+    diffADDED: "Eklenen",
+    diffCHANGED: "Değişen",
+    diffREMOVED: "Kaldırılan",
+    diffUNCHANGED: "Aynı",
+    diffKind: "Durum",
+    diffChanges: "Değişiklikler",
+    acceptAll: "Tümünü Seç",
+    rejectAll: "Hiçbirini Seçme",
+    noDiff: "Dosya mevcut kalemlerle aynı; uygulanacak değişiklik yok.",
+    historyMerge: "Yeniden içe aktarım",
+    keyColumn: "Anahtar Kolon (yeniden aktarım eşleştirmesi)",
+    importIssues: "değer yorumlanamadı veya varsayılan değerle dolduruldu",
+    backup: "Yedekleme",
+    backupHint: "Projeler, denetim geçmişi, katalog, kural ve şablonlar tek bir .metraj dosyasına yazılır. Eski sürüm yedekler geri yüklenirken otomatik güncellenir.",
+    exportWorkspace: "Çalışma Alanını Yedekle",
+    exportBackup: "Yedek Al (.metraj)",
+    restoreBackup: "Yedekten Geri Yükle",
+    restoreWorkspaceConfirm: "Mevcut tüm projeler ve ayarlar yedekteki verilerle değiştirilecek. Devam edilsin mi?",
+    restoreOverwriteConfirm: "Bu proje zaten mevcut. Üzerine yazılsın mı? (İptal: kopya olarak eklenir)",
+    restoredCopy: "geri yüklenen",
+    printReport: "PDF Rapor",
+    engineerName: "Hazırlayan Mühendis",
+    reportLogo: "Rapor Logosu",
+    uploadLogo: "Logo Yükle",
+    logoTooLarge: "Logo dosyası 200 KB'den küçük olmalıdır.",
+    loadFailed: "Kayıtlı veriler yüklenemedi",
+    loadFailedHint: "Verilerinizin üzerine yazılmaması için uygulama hiçbir değişiklik kaydetmeden durduruldu. Sorunu giderip sayfayı yeniden yükleyin.",
+    retry: "Yeniden Dene",
+    saveFailed: "Son değişiklikler kaydedilemedi; birkaç saniyede bir yeniden deneniyor. Sayfayı kapatmayın ve depolama alanını kontrol edin.",
+    storageUsage: "Depolama Kullanımı",
+    aiProvider: "AI Sağlayıcısı",
+    aiProviderKind: "Sağlayıcı",
+    aiProviderOpenAI: "OpenAI Uyumlu (Yerel Sunucu)",
+    aiProviderMock: "Deneme (Çevrimdışı)",
+    aiEndpoint: "Uç Nokta Adresi",
+    aiModel: "Model",
+    aiModelDefault: "Varsayılan model",
+    aiContextTokens: "Bağlam Penceresi (token)",
+    showInTable: "Tabloda Göster",
+    localScore: "Yerel Risk Puanı",
+    allProjects: "Tüm Projeler",
+    compareAudits: "Denetimleri Karşılaştır",
+    noSnapshot: "Bu denetimde kalem anlık görüntüsü yok",
+    riskTrend: "Risk Puanı Eğilimi",
+    riskScore: "Risk Puanı",
+    newFindings: "Yeni Bulgular",
+    resolvedFindings: "Giderilen Bulgular",
+    persistingFindings: "Devam Eden Bulgular",
+    itemChanges: "Kalem Değişiklikleri",
+    noItemChanges: "İki denetim arasında kalem değişikliği yok.",
+    localScoreHint: "Kural bulgularından hesaplanır; aynı veri her zaman aynı puanı verir. Taşıyıcı sistem kalemleri daha ağır sayılır.",
+    riskSeverity: "Bulgu Önemi",
+    riskQuantity: "Etkilenen Miktar",
+    riskMismatch: "Miktar Uyuşmazlığı",
+    riskAffected: "Bulgulu",
+    aiUnavailable: "AI analizi yapılamadı; denetim kaydında yerel risk puanı kullanıldı.",
+    onlyWithFindings: "Bulgulu Kalemler",
+    highlightedItems: "kalem vurgulandı",
+    clearHighlight: "Vurguyu Kaldır",
+    aiBatchProgress: "Analiz edilen kalem grubu",
+    aiApiKey: "API Anahtarı",
+    aiApiKeyRequired: "Zorunlu (tarayıcıda saklanır)",
+    aiAccessToken: "Erişim Token'ı",
+    aiProviderProxy: "AI Vekil Sunucusu (Önerilen)",
+    aiProxyHint: "İstekler API anahtarını sunucuda tutan vekil sunucuya gider (npm run server). Sunucuda kullanıcı tanımlıysa erişim token'ı girin.",
+    aiApiKeyOptional: "İsteğe bağlı",
+    aiProviderHint: "Excel kolon eşleştirme ve uzman analizi seçilen sağlayıcıyla yapılır. API anahtarı yedek dosyalarına yazılmaz.",
+    aiMockHint: "Deneme sağlayıcısı ağ kullanmaz: kolonları yerel eşleştiriciyle bulur, analizi kural bulgularından üretir."
   },
   EN: {
     dashboard: "Projects",
@@ -107,6 +294,7 @@ export const translations = {
     valid: "OK",
     riskProfile: "Risk Profile",
     keyFindings: "Key Findings",
+    latestAiFindings: "Findings from the Latest AI Audit",
     aiAnalyzing: "AI Reviewing...",
     noData: "No data.",
     addRow: "Add Row",
@@ -162,6 +350,192 @@ export const translations = {
     quickAdd: "Save",
     dimX: "X (m)",
     dimY: "Y (m)",
-    dimZ: "Z (m)"
+    dimZ: "Z (m)",
+    rowsSelected: "rows selected",
+    applyBulkEdit: "Apply to Selected",
+    deleteSelected: "Delete Selected",
+    undo: "Undo",
+    redo: "Redo",
+    changeHistory: "Change History",
+    currentState: "Current State",
+    historyAdded: "Added",
+    historyEdited: "Edited",
+    historyDeleted: "Deleted",
+    historyBulkEdit: "Bulk edit",
+    historyImport: "Excel import",
+    historyRows: "rows",
+    costEstimate: "Cost Estimate",
+    unknownPozes: "pozes not found in catalog",
+    noCatalog: "No catalog loaded",
+    unitPrice: "Unit Price",
+    amount: "Amount",
+    subtotal: "Subtotal",
+    grandTotal: "Grand Total",
+    priceCatalogs: "Unit Price Catalogs",
+    importCatalog: "Import Catalog (Excel/CSV)",
+    hakedis: "Progress Payments",
+    revisions: "Revisions",
+    guideRevisions: "Save the current state of the metraj as a named revision when drawings are revised. Browse revisions read-only, compare any two at poz and category-total level, or branch a new working copy from a past revision.",
+    saveRevision: "Save Revision",
+    revisionNamePlaceholder: "e.g. Rev-A tender",
+    noRevisions: "No revisions saved yet.",
+    viewRevision: "View",
+    branchRevision: "Branch Copy",
+    deleteRevisionConfirm: "delete this revision?",
+    readOnly: "Read-only",
+    currentWorkingCopy: "Current Working Copy",
+    compareRevisions: "Compare Revisions",
+    selectTwoRevisions: "Select two different revisions to compare.",
+    categoryTotals: "Category Totals",
+    pozDeltas: "Quantity Changes by Poz",
+    noQuantityChanges: "No poz quantity changes.",
+    before: "Before",
+    after: "After",
+    guideHakedis: "Define payment periods and enter the quantity executed per poz in each period. You will be warned when cumulative quantities exceed the contract quantity.",
+    newPeriod: "New Period",
+    noPeriods: "No payment periods defined yet.",
+    periodName: "- Progress Payment",
+    periodTitle: "Period Name",
+    periodStart: "Start",
+    periodEnd: "End",
+    contractQty: "Contract Qty",
+    previousCumulative: "Previous Cumulative",
+    thisPeriod: "This Period",
+    totalCumulative: "Total Cumulative",
+    remaining: "Remaining",
+    rebarMode: "Bar schedule mode (diameter / length / count)",
+    rebarModeShort: "Schedule",
+    rebarDiameter: "Diameter",
+    rebarShape: "Shape",
+    rebarCount: "Bar Count",
+    rebarLength: "Total Length (m)",
+    rebarSummary: "Rebar Summary by Diameter",
+    shapeSTRAIGHT: "Straight",
+    shapeL: "L-bar",
+    shapeU: "U-bar",
+    shapeSTIRRUP: "Stirrup",
+    deduction: "Deduction",
+    addDeduction: "Add deduction row",
+    net: "Net",
+    location: "Location",
+    block: "Block",
+    floor: "Floor",
+    element: "Element",
+    unassigned: "Unassigned",
+    allLocations: "Whole Project",
+    groupByLocation: "Group by Location",
+    elementFOUNDATION: "Foundation",
+    elementCOLUMN: "Column",
+    elementWALL: "Wall",
+    elementBEAM: "Beam",
+    elementSLAB: "Slab",
+    elementSTAIR: "Stair",
+    elementOTHER: "Other",
+    ruleSettings: "Rule Settings",
+    muteFinding: "Mute",
+    muteJustification: "Justification for muting this finding:",
+    mutedFindings: "Muted Findings",
+    unmute: "Unmute",
+    customRule: "Custom",
+    customRules: "Company Rules",
+    customRulesHint: "Define rules as JSON (single object or array). Conditions may use item fields plus difference, relativeDifference, block, floor, element.",
+    addRules: "Add Rules",
+    applyFix: "Fix",
+    historyFixed: "Fix applied",
+    removeItemFixConfirm: "This fix will delete the row (and its linked deduction rows). Continue?",
+    linkItems: "Link",
+    unlinkItems: "Unlink",
+    linkGroup: "Link group",
+    historyLinked: "Linked",
+    historyUnlinked: "Unlinked",
+    relatedItems: "Related items",
+    sheet: "Sheet",
+    sheetsFound: "sheets found. Select the sheets to import.",
+    selectSheets: "Sheet Selection",
+    analyzeSheets: "Analyze Selected Sheets",
+    sharedMapping: "Shared mapping",
+    sheetAsLocation: "Use sheet name as location",
+    mappingSource: "Mapping source",
+    mappingSourceTEMPLATE: "Template",
+    mappingSourceLOCAL: "Local",
+    mappingSourceAI: "AI",
+    mappingSourceMANUAL: "Manual",
+    localConfidence: "Local matcher confidence",
+    template: "Template",
+    templateName: "Template name (e.g. contractor or file format):",
+    saveTemplate: "Save as Template",
+    mappingTemplates: "Column Mapping Templates",
+    noMappingTemplates: "No saved templates. Save a mapping as a template from the import dialog.",
+    reviewChanges: "Review Changes",
+    applyChanges: "Apply Selected Changes",
+    back: "Back",
+    diffADDED: "Added",
+    diffCHANGED: "Changed",
+    diffREMOVED: "Removed",
+    diffUNCHANGED: "Unchanged",
+    diffKind: "Status",
+    diffChanges: "Changes",
+    acceptAll: "Select All",
+    rejectAll: "Select None",
+    noDiff: "The file matches the existing items; nothing to apply.",
+    historyMerge: "Re-import",
+    keyColumn: "Key Column (re-import matching)",
+    importIssues: "values could not be interpreted or were defaulted",
+    backup: "Backup",
+    backupHint: "Projects, audit history, catalogs, rules and templates are written to a single .metraj file. Older backups are upgraded automatically on restore.",
+    exportWorkspace: "Back Up Workspace",
+    exportBackup: "Export Backup (.metraj)",
+    restoreBackup: "Restore From Backup",
+    restoreWorkspaceConfirm: "All current projects and settings will be replaced with the backup. Continue?",
+    restoreOverwriteConfirm: "This project already exists. Overwrite it? (Cancel: add as a copy)",
+    restoredCopy: "restored",
+    printReport: "PDF Report",
+    engineerName: "Prepared By (Engineer)",
+    reportLogo: "Report Logo",
+    uploadLogo: "Upload Logo",
+    logoTooLarge: "Logo file must be smaller than 200 KB.",
+    loadFailed: "Saved data could not be loaded",
+    loadFailedHint: "The app stopped without saving any changes so your data is not overwritten. Fix the problem and reload the page.",
+    retry: "Retry",
+    saveFailed: "Recent changes could not be saved; retrying every few seconds. Keep this page open and check your storage space.",
+    storageUsage: "Storage Usage",
+    aiProvider: "AI Provider",
+    aiProviderKind: "Provider",
+    aiProviderOpenAI: "OpenAI-Compatible (Self-Hosted)",
+    aiProviderMock: "Demo (Offline)",
+    aiEndpoint: "Endpoint URL",
+    aiModel: "Model",
+    aiModelDefault: "Default model",
+    aiContextTokens: "Context Window (tokens)",
+    showInTable: "Show in Table",
+    localScore: "Local Risk Score",
+    allProjects: "All Projects",
+    compareAudits: "Compare Audits",
+    noSnapshot: "This audit has no item snapshot",
+    riskTrend: "Risk Score Trend",
+    riskScore: "Risk Score",
+    newFindings: "New Findings",
+    resolvedFindings: "Resolved Findings",
+    persistingFindings: "Persisting Findings",
+    itemChanges: "Item Changes",
+    noItemChanges: "No item changes between the two audits.",
+    localScoreHint: "Computed from rule findings; the same data always yields the same score. Structural items weigh more.",
+    riskSeverity: "Finding Severity",
+    riskQuantity: "Quantity Affected",
+    riskMismatch: "Quantity Mismatch",
+    riskAffected: "Affected",
+    aiUnavailable: "AI analysis could not be completed; the audit record uses the local risk score.",
+    onlyWithFindings: "Items with Findings",
+    highlightedItems: "items highlighted",
+    clearHighlight: "Clear Highlight",
+    aiBatchProgress: "Item groups analyzed",
+    aiApiKey: "API Key",
+    aiApiKeyRequired: "Required (stored in the browser)",
+    aiAccessToken: "Access Token",
+    aiProviderProxy: "AI Proxy Server (Recommended)",
+    aiProxyHint: "Requests go to the proxy server that keeps the API key server-side (npm run server). Enter an access token if the server defines users.",
+    aiApiKeyOptional: "Optional",
+    aiProviderHint: "Excel column mapping and expert analysis use the selected provider. The API key is never written to backup files.",
+    aiMockHint: "The demo provider makes no network calls: columns come from the local matcher and the analysis is derived from rule findings."
   }
 };
@@ -7,6 +7,27 @@ export enum Severity {
 
 export type Language = 'TR' | 'EN';
 
+export type MetrajCategory = 'Concrete' | 'Formwork' | 'Reinforcement' | 'Finishing';
+
+export type RebarShape = 'STRAIGHT' | 'L' | 'U' | 'STIRRUP';
+
+export interface RebarSpec {
+  diameter: number; // Çubuk çapı (mm)
+  shape: RebarShape;
+  segments: number[]; // Parça boyları a, b, c (m)
+  barCount: number; // Bir elemandaki çubuk adedi
+}
+
+export type StructuralElement = 'FOUNDATION' | 'COLUMN' | 'WALL' | 'BEAM' | 'SLAB' | 'STAIR' | 'OTHER';
+
+export interface ItemLocation {
+  block?: string; // Blok (ör. "A Blok")
+  floor?: string; // Kat (ör. "3. Kat")
+  element?: StructuralElement; // Yapı elemanı
+}
+
+export type DimensionField = 'x' | 'y' | 'z' | 'multiplier';
+
 export interface MetrajItem {
   id: string;
   pozNumber: string;
@@ -22,44 +43,258 @@ export interface MetrajItem {
   count: number; // Adet
   totalQuantity: number; // Manuel Miktar
   calculatedQuantity: number; // Hesaplanan Miktar
-  category: 'Concrete' | 'Formwork' | 'Reinforcement' | 'Finishing';
+  category: MetrajCategory;
   notes?: string;
+  rebar?: RebarSpec; // Donatı çizelgesi modu (yalnızca Reinforcement)
+  formulas?: Partial<Record<DimensionField, string>>; // Boyut alanlarına girilen özgün ifadeler (ör. "3.50+2*0.25")
+  isDeduction?: boolean; // Eksi (düşüm) satırı: miktarı ana kalemden düşülür
+  parentId?: string; // Düşüm satırının bağlı olduğu ana kalem
+  location?: ItemLocation;
+  sourceSheet?: string; // İçe aktarıldığı Excel sayfası
+  sourceKey?: string; // Yeniden içe aktarımda eşleştirme için dosyadaki anahtar kolon değeri
+  linkGroup?: string; // Elemanlar arası kontroller için açık bağlantı grubu (beton + kalıp + donatı)
 }
 
 export interface Project {
+  schemaVersion?: number; // Yoksa 1 kabul edilir; bkz. backupService migrasyonları
   id: string;
   name: string;
   createdAt: string;
   items: MetrajItem[];
+  priceCatalogId?: string; // Keşif bedelinde kullanılan birim fiyat kataloğu
+  periods?: PaymentPeriod[];
+  ruleConfig?: ProjectRuleConfig;
+  mutedFindings?: MutedFinding[];
+}
+
+// Projenin belirli bir andaki kalemlerinin salt okunur kopyası (ör. "Rev-A ihale"). Proje kaydından ayrı saklanır.
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: string;
+  items: MetrajItem[];
+}
+
+export interface PaymentPeriod {
+  id: string;
+  no: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+  quantities: Record<string, number>; // Normalize edilmiş poz -> bu dönemde yapılan miktar
+}
+
+export interface PriceCatalogEntry {
+  pozNumber: string;
+  description: string;
+  unit: string;
+  unitPrice: number;
+}
+
+export interface PriceCatalog {
+  id: string;
+  name: string;
+  year: number;
+  importedAt: string;
+  entries: PriceCatalogEntry[];
+}
+
+// Kolon eşleşmesinin kaynağı: kayıtlı şablon, yerel başlık eşleştirici, AI veya kullanıcı düzeltmesi.
+export type MappingSource = 'TEMPLATE' | 'LOCAL' | 'AI' | 'MANUAL';
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  fingerprint: string; // Normalize edilmiş başlık satırı
+  mapping: Record<string, number>;
+  startRow: number;
+  createdAt: string;
+}
+
+export interface HistoryEntry {
+  label: string;
+  items: MetrajItem[]; // Değişiklik öncesi (geri alma) veya sonrası (yineleme) durum
+  timestamp: number;
+}
+
+export interface ItemHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
 }
 
 export interface AuditRecord {
+  schemaVersion?: number;
   id: string;
   projectId: string;
   projectName: string;
+  scope?: string | null; // Denetimin konum kapsamı (locationScope); null/yok ise tüm proje
   date: string;
   analysis: AIAnalysis;
   itemCount: number;
   riskScore: number;
+  validationResults?: ValidationResult[]; // Denetim anındaki kural bulguları (rapor için saklanır)
+  stats?: AuditStats;
+  items?: MetrajItem[]; // Denetlenen kalemlerin anlık görüntüsü (denetimler arası karşılaştırma için)
+  localRisk?: RiskBreakdown; // Kural bulgularından hesaplanan yerel risk puanı; AI yanıt vermezse riskScore budur
+}
+
+export type RiskComponentKey = 'severity' | 'quantity' | 'mismatch';
+
+export interface RiskComponent {
+  key: RiskComponentKey;
+  weight: number; // Bileşenin puana katkısının üst sınırı
+  share: number; // 0-1 arası etkilenme oranı
+  points: number; // weight * share
+}
+
+export interface RiskCategoryBreakdown {
+  category: MetrajCategory;
+  weight: number; // Kategori ağırlığı
+  itemCount: number;
+  affectedCount: number; // Bulgusu olan kalemler
+  mismatchCount: number; // Miktarı tolerans dışında olan kalemler
+}
+
+export interface RiskBreakdown {
+  score: number; // 0-100
+  components: RiskComponent[];
+  categories: RiskCategoryBreakdown[];
+}
+
+// Denetim anındaki kalem istatistikleri; PDF raporunda kullanılır.
+export interface AuditStats {
+  itemCount: number;
+  deductionCount: number;
+  totalVolume: number; // m3
+  totalArea: number; // m2
+  rebarWeight: number; // kg
+  byCategory: Record<string, number>; // Kategori -> kalem sayısı
+}
+
+// Bulgu için tek tıkla uygulanabilen düzeltme: kaleme yama uygular veya kalemi siler.
+export interface SuggestedFix {
+  label: string;
+  patch?: Partial<MetrajItem>;
+  removeItem?: boolean;
 }
 
 export interface ValidationResult {
+  ruleId: string; // Bulguyu üreten kural
   itemId: string;
   severity: Severity;
   message: string;
   standardReference: string;
   suggestedAction: string;
+  fix?: SuggestedFix;
+  relatedItemIds?: string[]; // Elemanlar arası bulgularda ilgili tüm kalemler
+}
+
+// Kural kontrollerinin ürettiği ham bulgu; kural kimliği ve önem derecesi motor tarafından eklenir.
+export type RuleFinding = Omit<ValidationResult, 'ruleId' | 'severity'>;
+
+export type RuleScope = 'item' | 'project';
+
+export type ConditionOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'empty' | 'notEmpty' | 'matches' | 'in';
+
+export interface RuleCondition {
+  all?: RuleCondition[];
+  any?: RuleCondition[];
+  not?: RuleCondition;
+  field?: string; // Kalem alanı veya türetilmiş alan (difference, relativeDifference, block, floor, element)
+  op?: ConditionOperator;
+  value?: any;
+}
+
+export interface RuleDefinition {
+  id: string;
+  description: string;
+  severity: Severity;
+  scope: RuleScope; // item: her kalem ayrı değerlendirilir, project: proje geneli
+  categories?: MetrajCategory[]; // Boşsa tüm kategoriler
+  units?: string[]; // Boşsa tüm birimler
+  params?: Record<string, any>;
+  standardReference?: string;
+  suggestedAction?: string;
+  builtIn?: boolean;
+  // Yalnızca veri (JSON) ile tanımlanan kurallar
+  condition?: RuleCondition;
+  message?: string; // {pozNumber} gibi alan yer tutucuları içerebilir
+}
+
+export interface ToleranceSetting {
+  mode: 'absolute' | 'relative';
+  value: number;
+}
+
+export interface RuleContext {
+  project: Project;
+  items: MetrajItem[]; // Kuralın kategori/birim filtresinden geçen kalemler
+  allItems: MetrajItem[];
+  catalog?: PriceCatalog | null;
+  params: Record<string, any>;
+}
+
+export interface ProjectRuleConfig {
+  disabledRules: string[];
+  params: Record<string, Record<string, any>>; // Kural kimliği -> parametre değerleri
+}
+
+export interface MutedFinding {
+  ruleId: string;
+  itemId: string;
+  justification: string;
+  mutedAt: string;
+}
+
+export interface AIFinding {
+  title: string;
+  explanation: string;
+  standard: string;
+  severity: Severity;
+  itemIds?: string[]; // Bulgunun ilgili olduğu kalemler; projede bulunmayan kimlikler ayıklanır
 }
 
 export interface AIAnalysis {
   riskScore: number;
   summary: string;
-  findings: Array<{
-    title: string;
-    explanation: string;
-    standard: string;
-    severity: Severity;
-  }>;
+  findings: AIFinding[];
+  failed?: boolean; // Model yanıt vermedi; puan ve bulgular geçersiz
+}
+
+export interface UserSettings {
+  orgName: string;
+  preferredStandard: string;
+  logoDataUrl?: string; // Rapor başlığında kullanılan kuruluş logosu
+  engineerName?: string; // Rapor imza bloğundaki hazırlayan
+  aiProvider?: AIProviderConfig;
+}
+
+export type AIProviderKind = 'proxy' | 'gemini' | 'openai' | 'mock';
+
+export interface AIProviderConfig {
+  kind: AIProviderKind;
+  endpoint?: string; // Vekil veya OpenAI uyumlu sunucu adresi (ör. http://192.168.1.20:8000/v1)
+  model?: string; // Boşsa sağlayıcının varsayılan modeli
+  apiKey?: string; // Vekil sunucuda erişim token'ı; yedek dosyalarına yazılmaz
+  contextTokens?: number; // OpenAI uyumlu sunucularda modelin bağlam penceresi
+}
+
+export type BackupKind = 'project' | 'workspace';
+
+// .metraj yedek dosyası. Çalışma alanı yedeğinde projeler dışındaki kütüphaneler de taşınır.
+export interface BackupFile {
+  format: 'metraj-backup';
+  schemaVersion: number;
+  kind: BackupKind;
+  exportedAt: string;
+  projects: Project[];
+  auditHistory: AuditRecord[];
+  revisions?: ProjectRevision[]; // Eski yedeklerde yok
+  settings?: UserSettings;
+  priceCatalogs?: PriceCatalog[];
+  customRules?: RuleDefinition[];
+  mappingTemplates?: MappingTemplate[];
 }
 
 export type AppScreen = 
@@ -71,4 +306,6 @@ export type AppScreen =
   | 'REPORTS' 
   | 'SETTINGS' 
   | 'HISTORY'
+  | 'HAKEDIS'
+  | 'REVISIONS'
   | 'VIEW_AUDIT';